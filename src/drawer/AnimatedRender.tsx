@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from "react";
+
+export type AnimatedRenderProps = {
+  showing: boolean;
+  duration: number;
+  children: React.ReactNode;
+};
+
+export const AnimatedRender = ({
+  showing,
+  duration,
+  children,
+}: AnimatedRenderProps) => {
+  const [isMounted, setIsMounted] = useState(showing);
+  const timeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    setIsMounted((prev) => {
+      if (showing) {
+        return true;
+      } else if (prev) {
+        if (timeoutRef.current) {
+          clearTimeout(timeoutRef.current);
+        }
+        timeoutRef.current = setTimeout(() => setIsMounted(false), duration);
+        return prev;
+      }
+      return prev;
+    });
+
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+    };
+  }, [showing, duration]);
+
+  return isMounted || showing ? children : null;
+};
@@ -0,0 +1,223 @@
+// @vitest-environment jsdom
+import { act, createRef } from "react";
+import { createRoot, hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Drawer, type DrawerRef } from "./Drawer";
+import { DrawerHandle } from "./DrawerHandle";
+import { DrawerHeader } from "./DrawerHeader";
+
+// jsdom doesn't lay anything out, so these only need to exist
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+const matchMediaStub = (query: string) => ({
+  matches: false,
+  media: query,
+  addEventListener: () => {},
+  removeEventListener: () => {},
+});
+
+const renderDrawer = () => (
+  <Drawer
+    isOpen
+    onClose={() => {}}
+    header={<DrawerHeader headingText="Settings" />}
+  >
+    <DrawerHandle />
+    <p>Drawer content</p>
+  </Drawer>
+);
+
+const renderNestedDrawers = (isChildOpen: boolean) => (
+  <Drawer isOpen onClose={() => {}} aria-label="Parent">
+    <Drawer isOpen={isChildOpen} onClose={() => {}} aria-label="Child">
+      <p>Child content</p>
+    </Drawer>
+  </Drawer>
+);
+
+const getDialog = (label: string) =>
+  document.body.querySelector(`[role="dialog"][aria-label="${label}"]`);
+
+beforeEach(() => {
+  vi.stubGlobal("IS_REACT_ACT_ENVIRONMENT", true);
+  vi.stubGlobal("ResizeObserver", ResizeObserverStub);
+  vi.stubGlobal("matchMedia", matchMediaStub);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("Drawer server rendering", () => {
+  it("renders to a string without throwing", () => {
+    expect(() => renderToString(renderDrawer())).not.toThrow();
+  });
+
+  it("hydrates the server markup without mismatches", async () => {
+    const html = renderToString(renderDrawer());
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    document.body.appendChild(container);
+
+    // Keeps the style each element is first rendered with, before the
+    // drawer's effects start animating it
+    const initialStyles = new Map<Node, string>();
+    const appendChild = document.body.appendChild.bind(document.body);
+    vi.spyOn(document.body, "appendChild").mockImplementation((node) => {
+      if (node instanceof HTMLElement) {
+        initialStyles.set(node, node.getAttribute("style") ?? "");
+      }
+      return appendChild(node);
+    });
+    const getInitialStyle = (element: Element) => {
+      const initialStyle = document.createElement("div");
+      initialStyle.setAttribute("style", initialStyles.get(element) ?? "");
+      return initialStyle.style;
+    };
+
+    const onRecoverableError = vi.fn();
+    const root = await act(async () =>
+      hydrateRoot(container, renderDrawer(), { onRecoverableError })
+    );
+
+    // The drawer portals in after hydration, so the server leaves nothing
+    // behind that could mismatch
+    expect(html).toBe("");
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.innerHTML).toBe(html);
+
+    const dialog = document.body.querySelector('[role="dialog"]');
+    expect(dialog).not.toBeNull();
+    expect(dialog?.textContent).toContain("Settings");
+    // It first renders off-screen, with the overlay hidden, so nothing flashes
+    // up before it animates open
+    expect(getInitialStyle(dialog!).transform).toBe("translateY(100vh)");
+    expect(getInitialStyle(dialog!.previousElementSibling!).opacity).toBe("0");
+
+    act(() => root.unmount());
+  });
+});
+
+describe("Drawer focus", () => {
+  it("moves focus into a nested drawer when it opens", () => {
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container);
+
+    act(() => root.render(renderNestedDrawers(false)));
+    expect(document.activeElement).toBe(getDialog("Parent"));
+
+    act(() => root.render(renderNestedDrawers(true)));
+    expect(document.activeElement).toBe(getDialog("Child"));
+
+    act(() => root.render(renderNestedDrawers(false)));
+    expect(document.activeElement).toBe(getDialog("Parent"));
+
+    act(() => root.unmount());
+  });
+});
+
+describe("Drawer ref", () => {
+  it("asks to open and close rather than moving the drawer itself", () => {
+    const ref = createRef<DrawerRef>();
+    const onOpenRequest = vi.fn();
+    const onClose = vi.fn();
+    const renderWithRef = (isOpen: boolean) => (
+      <Drawer
+        ref={ref}
+        isOpen={isOpen}
+        onOpenRequest={onOpenRequest}
+        onClose={onClose}
+        aria-label="Drawer"
+      >
+        <p>Drawer content</p>
+      </Drawer>
+    );
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container);
+
+    act(() => root.render(renderWithRef(false)));
+    act(() => ref.current?.open());
+    expect(onOpenRequest).toHaveBeenCalledOnce();
+
+    act(() => root.render(renderWithRef(true)));
+    const openTransform = (getDialog("Drawer") as HTMLElement).style.transform;
+    act(() => ref.current?.close());
+    expect(onClose).toHaveBeenCalledWith("programmatic");
+    // Still open until the parent turns `isOpen` off
+    expect((getDialog("Drawer") as HTMLElement).style.transform).toBe(
+      openTransform
+    );
+
+    act(() => root.unmount());
+  });
+});
+
+describe("Drawer accessible name", () => {
+  it("is only labelled by a title that's rendered", () => {
+    const renderWithHeader = (hasHeader: boolean) => (
+      <Drawer
+        isOpen
+        onClose={() => {}}
+        header={hasHeader && <DrawerHeader headingText="Settings" />}
+      >
+        <p>Drawer content</p>
+      </Drawer>
+    );
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container);
+
+    act(() => root.render(renderWithHeader(false)));
+    const dialog = document.body.querySelector('[role="dialog"]');
+    expect(dialog?.hasAttribute("aria-labelledby")).toBe(false);
+
+    act(() => root.render(renderWithHeader(true)));
+    const titleId = dialog?.getAttribute("aria-labelledby");
+    expect(titleId && document.getElementById(titleId)?.textContent).toBe(
+      "Settings"
+    );
+
+    act(() => root.unmount());
+  });
+});
+
+describe("Drawer announcements", () => {
+  it("announces a controlled snap point change", () => {
+    const renderAtSnapPoint = (activeSnapPoint: number) => (
+      <Drawer
+        isOpen
+        onClose={() => {}}
+        snapPoints={[0.5, 1]}
+        snapPointNames={["half", "full"]}
+        activeSnapPoint={activeSnapPoint}
+      >
+        <p>Drawer content</p>
+      </Drawer>
+    );
+    const container = document.createElement("div");
+    document.body.appendChild(container);
+    const root = createRoot(container);
+    const getAnnouncement = () =>
+      document.body.querySelector('[role="status"]')?.textContent;
+
+    act(() => root.render(renderAtSnapPoint(0.5)));
+    expect(getAnnouncement()).toBe("Drawer opened");
+
+    act(() => root.render(renderAtSnapPoint(1)));
+    expect(getAnnouncement()).toBe("Drawer expanded to full");
+
+    act(() => root.render(renderAtSnapPoint(0.5)));
+    expect(getAnnouncement()).toBe("Drawer collapsed to half");
+
+    act(() => root.unmount());
+  });
+});
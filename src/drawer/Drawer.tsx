@@ -0,0 +1,1529 @@
+import {
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { createPortal } from "react-dom";
+import {
+  getBackgroundElement,
+  getBackgroundTransformOrigin,
+  type DrawerBackground,
+} from "./background";
+import { DrawerContext, type DrawerContextValue } from "./DrawerContext";
+import {
+  useControllableState,
+  useElementSize,
+  useFocusTrap,
+  useIsClient,
+  useKeyPress,
+  usePreventBodyScroll,
+  useReducedMotion,
+  useRestoreFocus,
+  useSafeAreaInsets,
+  useViewportSize,
+  type ReducedMotion,
+} from "./hooks";
+import {
+  BACKGROUND_INSET,
+  BACKGROUND_RADIUS,
+  DAMPED_TRANSLATE_LIMIT,
+  DISMISS_THRESHOLD,
+  DRAG_THRESHOLD,
+  DURATION,
+  OVERDRAG_LIMIT,
+  REDUCED_MOTION_DURATION,
+  SHAKE_VELOCITY,
+  VELOCITY_SAMPLE_DURATION,
+  VELOCITY_THRESHOLD,
+} from "./constants";
+import {
+  DEFAULT_SNAP_POINTS,
+  getReleaseVelocity,
+  getSnapPointTranslate,
+  getSnapTargetIndex,
+  isContentSized,
+  type SnapPoint,
+} from "./snapPoints";
+import {
+  getPointerPosition,
+  getRenderedTranslate,
+  getSideClosedTransform,
+  getSideSign,
+  getSideTransform,
+  getSideViewportInsets,
+  isVerticalSide,
+  SIDE_CLASS_NAMES,
+  SIDE_FILLER_CLASS_NAMES,
+  SIDE_TRANSFORM_ORIGINS,
+  type DrawerSide,
+} from "./side";
+import { DEFAULT_MESSAGES, type DrawerMessages } from "./messages";
+import { isDismissible, type CloseReason, type Dismissible } from "./dismiss";
+import { applyOverdrag, type Overdrag } from "./overdrag";
+import { getFarInset, getSafeAreaPadding } from "./safeArea";
+import {
+  animateScrollMomentum,
+  consumeScrollDelta,
+  scrollIntoContentView,
+} from "./scroll";
+import {
+  animateSpring,
+  DEFAULT_SPRING_CONFIG,
+  SHAKE_SPRING_CONFIG,
+  type SpringConfig,
+} from "./spring";
+
+export type DrawerRef = {
+  /**
+   * Asks to open a closed drawer through `onOpenRequest`, or animates an open
+   * one back to its active snap point
+   */
+  open: () => void;
+  /**
+   * Asks to close the drawer through `onClose` with "programmatic". It
+   * animates closed once `isOpen` turns false.
+   */
+  close: () => void;
+  /** Animates the drawer to a snap point by index or by name */
+  snapTo: (snapPoint: number | string) => void;
+  /**
+   * The drawer's translate along its axis, where 0 is fully showing. Reads
+   * where the drawer is on screen while it's animating.
+   */
+  getTranslateY: () => number;
+  isDragging: () => boolean;
+};
+
+export type DrawerProps = {
+  ref?: React.Ref<DrawerRef>;
+  isOpen: boolean;
+  onClose: (reason: CloseReason) => void;
+  /** Called when `open()` is called on the closed drawer, to set `isOpen` */
+  onOpenRequest?: () => void;
+  /**
+   * Called before the drawer closes. Returning false, or a promise that
+   * resolves to false or rejects, keeps it open. The drawer waits where it is
+   * while the promise is pending.
+   */
+  onBeforeClose?: (
+    reason: CloseReason
+  ) => boolean | void | Promise<boolean | void>;
+  /** Lets the overlay, Escape, the close button or dragging close the drawer */
+  dismissible?: Dismissible;
+  /** Called as the drawer starts animating open */
+  onOpenStart?: () => void;
+  /** Called once the drawer has finished animating open */
+  onOpenEnd?: () => void;
+  /** Called as the drawer starts animating closed */
+  onCloseStart?: () => void;
+  /** Called once the drawer has finished animating closed */
+  onCloseEnd?: () => void;
+  /** Called once a press has moved far enough to count as a drag */
+  onDragStart?: () => void;
+  /**
+   * Called as the drawer is dragged. `progress` runs from 0 when closed to 1
+   * at the most expanded snap point.
+   */
+  onDrag?: (progress: number, translateY: number) => void;
+  /** Called when a drag is released or cancelled */
+  onDragEnd?: () => void;
+  /** Called when the drawer opens or comes to rest somewhere new */
+  onSnap?: (snapPoint: SnapPoint, index: number) => void;
+  header?: React.ReactNode;
+  /** The edge of the viewport the drawer slides in from */
+  side?: DrawerSide;
+  /**
+   * Resting positions ordered from most collapsed to most expanded. The
+   * drawer opens to `defaultSnapPoint`, or the first one. "content" can only
+   * be the last, most expanded snap point.
+   */
+  snapPoints?: SnapPoint[];
+  /** The snap point the drawer sits at when controlled */
+  activeSnapPoint?: SnapPoint;
+  defaultSnapPoint?: SnapPoint;
+  onSnapPointChange?: (snapPoint: SnapPoint) => void;
+  /** Names for each snap point, so `snapTo` can target them by name */
+  snapPointNames?: string[];
+  /**
+   * Fraction of the way from the lowest snap point to closed that a slow
+   * drag has to pass to dismiss the drawer
+   */
+  dismissThreshold?: number;
+  /** Release speed in px/ms above which a drag flicks to the next snap point */
+  velocityThreshold?: number;
+  /**
+   * "tween" runs timed CSS transitions. "spring" runs a spring that carries
+   * the release velocity of a drag and can be interrupted mid-flight.
+   */
+  animation?: "spring" | "tween";
+  spring?: Partial<SpringConfig>;
+  /**
+   * Resistance when dragged past the most expanded snap point, or past the
+   * least expanded one when the drawer can't be dragged closed
+   */
+  overdrag?: Overdrag;
+  /** How the page behind the drawer recedes while it's open */
+  background?: DrawerBackground;
+  /**
+   * The snap point indexes between which the overlay fades in and the
+   * background recedes, following the drawer as it's dragged. Defaults to
+   * `["closed", 0]`, so everything is in place by the lowest snap point.
+   */
+  fadeRange?: [from: number | "closed", to: number];
+  /**
+   * Keeps the drawer's content and snap points clear of notches, status bars
+   * and home indicators. Needs `viewport-fit=cover` in the viewport meta tag.
+   */
+  safeArea?: boolean;
+  /**
+   * Under reduced motion the drawer fades in and out and jumps between snap
+   * points, the page behind it stays still, and there's no overdrag
+   */
+  reducedMotion?: ReducedMotion;
+  messages?: Partial<DrawerMessages>;
+  /** Names the drawer when there's no `DrawerHeader` to label it */
+  "aria-label"?: string;
+  children: React.ReactNode;
+};
+
+export const Drawer = ({
+  ref,
+  isOpen,
+  onClose,
+  onOpenRequest,
+  dismissible = true,
+  onBeforeClose,
+  onOpenStart,
+  onOpenEnd,
+  onCloseStart,
+  onCloseEnd,
+  onDragStart,
+  onDrag,
+  onDragEnd,
+  onSnap,
+  header,
+  side = "bottom",
+  snapPoints: snapPointsProp = DEFAULT_SNAP_POINTS,
+  activeSnapPoint: activeSnapPointProp,
+  defaultSnapPoint,
+  onSnapPointChange,
+  snapPointNames,
+  dismissThreshold = DISMISS_THRESHOLD,
+  velocityThreshold = VELOCITY_THRESHOLD,
+  animation = "tween",
+  spring,
+  overdrag: overdragProp = OVERDRAG_LIMIT,
+  background = {},
+  fadeRange: [fadeFrom, fadeTo] = ["closed", 0],
+  safeArea = true,
+  reducedMotion = "system",
+  messages: messagesProp,
+  "aria-label": ariaLabel,
+  children,
+}: DrawerProps) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const drawerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const dragState = useRef<{
+    isDragging: boolean;
+    // The pointer driving the drag, so other fingers can't take over
+    pointerId: number | null;
+    translate: number;
+    dragStartPosition: number;
+    dragStartTranslate: number;
+    lastPointerPosition: number;
+    // Drags that start in the content can scroll it as well as move the drawer
+    startedInContent: boolean;
+    scrollSamples: { position: number; time: number }[];
+    // Recent translates, used to measure the release velocity
+    samples: { position: number; time: number }[];
+    hasTravelled: boolean;
+    touchStartedOnDrawer: boolean;
+  }>({
+    isDragging: false,
+    pointerId: null,
+    translate: 0,
+    dragStartPosition: 0,
+    dragStartTranslate: 0,
+    lastPointerPosition: 0,
+    startedInContent: false,
+    scrollSamples: [],
+    samples: [],
+    hasTravelled: false,
+    touchStartedOnDrawer: false,
+  });
+
+  const isVertical = isVerticalSide(side);
+  const isClient = useIsClient();
+  const viewport = useViewportSize();
+  const { width: viewportWidth, height: viewportHeight } = viewport;
+  const viewportSize = isVertical ? viewportHeight : viewportWidth;
+  const deviceSafeAreaInsets = useSafeAreaInsets(safeArea);
+  // An on-screen keyboard covers the bottom inset
+  const safeAreaInsets = useMemo(
+    () =>
+      viewport.offsetBottom > 0
+        ? { ...deviceSafeAreaInsets, bottom: 0 }
+        : deviceSafeAreaInsets,
+    [deviceSafeAreaInsets, viewport.offsetBottom]
+  );
+  // Re-measured whenever the content or viewport resizes the drawer, which
+  // re-snaps it to its active snap point. The drawer element only exists once
+  // rendered on the client.
+  const { height: drawerContentHeight, width: drawerContentWidth } =
+    useElementSize(drawerRef, isClient && isOpen);
+  const drawerContentSize = isVertical
+    ? drawerContentHeight
+    : drawerContentWidth;
+  // Each holds the listener cleanup of a transition that's still running
+  const opacityAnimationRef = useRef<(() => void) | null>(null);
+  const transformAnimationRef = useRef<(() => void) | null>(null);
+  const backgroundAnimationRef = useRef<(() => void) | null>(null);
+  const recedeAnimationRef = useRef<(() => void) | null>(null);
+  const stopSpringRef = useRef<(() => number) | null>(null);
+  const stopShakeRef = useRef<(() => number) | null>(null);
+  const stopScrollMomentumRef = useRef<(() => void) | null>(null);
+
+  const prefersReducedMotion = useReducedMotion(reducedMotion);
+  const isSpring = animation === "spring" && !prefersReducedMotion;
+  const overdrag = prefersReducedMotion ? false : overdragProp;
+
+  const { stiffness, damping, mass } = { ...DEFAULT_SPRING_CONFIG, ...spring };
+  const springConfig = useMemo(
+    () => ({ stiffness, damping, mass }),
+    [stiffness, damping, mass]
+  );
+
+  // Drawers opened from inside this one recede it instead of the page
+  const parentDrawer = useContext(DrawerContext);
+  const isNested = parentDrawer !== null;
+  const openChildCount = useRef(0);
+  const [hasOpenChild, setHasOpenChild] = useState(false);
+
+  const titleId = useId();
+  // Only name the drawer by its title once a header has rendered one
+  const titleCount = useRef(0);
+  const [hasTitle, setHasTitle] = useState(false);
+  const registerTitle = useCallback(() => {
+    titleCount.current += 1;
+    setHasTitle(true);
+
+    return () => {
+      titleCount.current -= 1;
+      setHasTitle(titleCount.current > 0);
+    };
+  }, []);
+  const {
+    close: closeMessage,
+    handle: handleMessage,
+    snapPoint: snapPointMessage,
+    opened: openedMessage,
+    expanded: expandedMessage,
+    collapsed: collapsedMessage,
+    closed: closedMessage,
+  } = { ...DEFAULT_MESSAGES, ...messagesProp };
+  const messages = useMemo(
+    () => ({
+      close: closeMessage,
+      handle: handleMessage,
+      snapPoint: snapPointMessage,
+      opened: openedMessage,
+      expanded: expandedMessage,
+      collapsed: collapsedMessage,
+      closed: closedMessage,
+    }),
+    [
+      closeMessage,
+      handleMessage,
+      snapPointMessage,
+      openedMessage,
+      expandedMessage,
+      collapsedMessage,
+      closedMessage,
+    ]
+  );
+
+  // Read out by a polite live region that outlives the drawer itself
+  const [announcement, setAnnouncement] = useState("");
+
+  const describeSnapPoint = useCallback(
+    (index: number) => {
+      return (
+        snapPointNames?.[index] ??
+        messages.snapPoint(index, snapPointsProp.length)
+      );
+    },
+    [messages, snapPointNames, snapPointsProp.length]
+  );
+
+  const announceSnap = useCallback(
+    (fromIndex: number, toIndex: number) => {
+      if (toIndex > fromIndex) {
+        setAnnouncement(messages.expanded(describeSnapPoint(toIndex)));
+      } else if (toIndex < fromIndex) {
+        setAnnouncement(messages.collapsed(describeSnapPoint(toIndex)));
+      }
+    },
+    [describeSnapPoint, messages]
+  );
+
+  // Kept in a ref so inline callbacks don't restart animations every render
+  const callbacks = useRef({
+    onOpenStart,
+    onOpenEnd,
+    onCloseStart,
+    onCloseEnd,
+    onDragStart,
+    onDrag,
+    onDragEnd,
+    onSnap,
+  });
+
+  useEffect(() => {
+    callbacks.current = {
+      onOpenStart,
+      onOpenEnd,
+      onCloseStart,
+      onCloseEnd,
+      onDragStart,
+      onDrag,
+      onDragEnd,
+      onSnap,
+    };
+  });
+
+  const wasOpen = useRef(false);
+  // The open or close the next time the drawer comes to rest will finish
+  const pendingTransition = useRef<"open" | "close" | null>(null);
+  // Where the drawer last came to rest, so settling in place isn't reported
+  const lastSnap = useRef<{ index: number; translate: number } | null>(null);
+  // Stays mounted after closing until the close has finished animating
+  const [isMounted, setIsMounted] = useState(isOpen);
+
+  useEffect(() => {
+    if (parentDrawer && isOpen) {
+      return parentDrawer.registerOpenChild();
+    }
+  }, [isOpen, parentDrawer]);
+
+  // Keep the snap points stable across renders when passed inline
+  const snapPointsKey = snapPointsProp.join(",");
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const snapPoints = useMemo(() => snapPointsProp, [snapPointsKey]);
+
+  const [activeSnapPoint, setActiveSnapPoint, resetActiveSnapPoint] =
+    useControllableState({
+      value: activeSnapPointProp,
+      defaultValue: defaultSnapPoint ?? snapPoints[0],
+      onChange: onSnapPointChange,
+    });
+  const activeSnapIndex = Math.max(0, snapPoints.indexOf(activeSnapPoint));
+
+  // Announce every move between snap points, whether it came from a drag, the
+  // handle or a controlled `activeSnapPoint`
+  const announcedSnapIndex = useRef(activeSnapIndex);
+
+  useEffect(() => {
+    const fromIndex = announcedSnapIndex.current;
+    announcedSnapIndex.current = activeSnapIndex;
+
+    if (isOpen) {
+      announceSnap(fromIndex, activeSnapIndex);
+    }
+  }, [activeSnapIndex, announceSnap, isOpen]);
+
+  usePreventBodyScroll(isOpen);
+  useRestoreFocus(isOpen);
+  // Nested drawers take over the trap while they're open
+  useFocusTrap(drawerRef, isClient && isOpen && !hasOpenChild);
+
+  const getSnapPointTranslates = useCallback(() => {
+    return snapPoints.map((snapPoint) =>
+      getSnapPointTranslate(snapPoint, {
+        viewportSize,
+        contentSize: drawerContentSize,
+        nearInset: safeAreaInsets[side],
+        farInset: getFarInset(side, safeAreaInsets),
+      })
+    );
+  }, [drawerContentSize, safeAreaInsets, side, snapPoints, viewportSize]);
+
+  const getClosedTranslate = useCallback(() => {
+    return viewportSize;
+  }, [viewportSize]);
+
+  const hasBackground = background !== "none";
+  const {
+    element: backgroundElement,
+    scale: backgroundScale,
+    inset: backgroundInset = BACKGROUND_INSET,
+    radius: backgroundRadius = BACKGROUND_RADIUS,
+  } = background === "none" ? {} : background;
+
+  // Nested drawers leave the page to the outermost one
+  const getBackground = useCallback(() => {
+    return hasBackground && !isNested
+      ? getBackgroundElement(backgroundElement)
+      : null;
+  }, [backgroundElement, hasBackground, isNested]);
+
+  const getBackgroundOutScale = useCallback(
+    (element: HTMLElement) => {
+      if (backgroundScale !== undefined) {
+        return backgroundScale;
+      }
+
+      // offsetWidth ignores the scale the background may already have
+      const width = element.offsetWidth;
+      return (width - backgroundInset - backgroundInset) / width;
+    },
+    [backgroundInset, backgroundScale]
+  );
+
+  // How far the drawer is through the fade range, from 0 to 1
+  const getPresentationProgress = useCallback(
+    (translate: number) => {
+      const snapPointTranslates = getSnapPointTranslates();
+      const fromTranslate =
+        fadeFrom === "closed"
+          ? getClosedTranslate()
+          : snapPointTranslates[fadeFrom];
+      const toTranslate = snapPointTranslates[fadeTo];
+
+      if (fromTranslate === toTranslate) {
+        return translate <= toTranslate ? 1 : 0;
+      }
+
+      const progress =
+        (fromTranslate - translate) / (fromTranslate - toTranslate);
+      return Math.max(0, Math.min(1, progress));
+    },
+    [fadeFrom, fadeTo, getClosedTranslate, getSnapPointTranslates]
+  );
+
+  // Sets the overlay and background to match a progress without transitions
+  const applyPresentationProgress = useCallback(
+    (progress: number) => {
+      opacityAnimationRef.current?.();
+      backgroundAnimationRef.current?.();
+
+      if (overlayRef.current) {
+        overlayRef.current.style.transition = "none";
+        overlayRef.current.style.opacity = `${progress}`;
+      }
+
+      const backgroundElement = getBackground();
+
+      if (prefersReducedMotion || !backgroundElement) {
+        return;
+      }
+
+      const scale =
+        1 - (1 - getBackgroundOutScale(backgroundElement)) * progress;
+      backgroundElement.style.transition = "none";
+      backgroundElement.style.transformOrigin =
+        getBackgroundTransformOrigin(backgroundElement);
+      backgroundElement.style.transform = `scale(${scale}) translateY(${
+        backgroundInset * progress
+      }px)`;
+      backgroundElement.style.borderRadius = `${backgroundRadius * progress}px`;
+    },
+    [
+      backgroundInset,
+      backgroundRadius,
+      getBackground,
+      getBackgroundOutScale,
+      prefersReducedMotion,
+    ]
+  );
+
+  const animate = useCallback(
+    ({
+      element,
+      styles,
+      transition,
+      animationRef,
+      onComplete,
+    }: {
+      element: HTMLElement | null;
+      styles: Record<string, string>;
+      transition: string;
+      animationRef: React.RefObject<(() => void) | null>;
+      onComplete?: () => void;
+    }) => {
+      if (!element) {
+        return;
+      }
+
+      const isRunning = animationRef.current !== null;
+      let hasChanged = false;
+
+      Object.entries(styles).forEach(([key, value]) => {
+        // @ts-expect-error -- key should be a valid CSS property
+        const previousValue = element.style[key];
+        // @ts-expect-error -- key should be a valid CSS property
+        element.style[key] = value;
+        // @ts-expect-error -- key should be a valid CSS property
+        hasChanged ||= element.style[key] !== previousValue;
+      });
+
+      // Nothing will transition, so either let the running transition finish
+      // or complete straight away
+      if (!hasChanged) {
+        if (!isRunning) {
+          onComplete?.();
+        }
+        return;
+      }
+
+      animationRef.current?.();
+      element.style.transition = transition;
+
+      // Other transitions on the element, or bubbling up from its children,
+      // shouldn't finish this one
+      const properties = Object.keys(styles).map((key) =>
+        key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+      );
+
+      const handleTransitionEnd = (e: TransitionEvent) => {
+        if (e.target !== element || !properties.includes(e.propertyName)) {
+          return;
+        }
+
+        animationRef.current?.();
+        element.style.transition = "none";
+        onComplete?.();
+      };
+
+      element.addEventListener("transitionend", handleTransitionEnd);
+      animationRef.current = () => {
+        element.removeEventListener("transitionend", handleTransitionEnd);
+        animationRef.current = null;
+      };
+    },
+    []
+  );
+
+  // Finishes an open or close and reports the snap point the drawer rests at
+  const handleSettle = useCallback(() => {
+    const transition = pendingTransition.current;
+    pendingTransition.current = null;
+
+    if (contentRef.current) {
+      contentRef.current.style.overflowY = "";
+    }
+
+    if (transition === "close") {
+      lastSnap.current = null;
+      setIsMounted(false);
+      callbacks.current.onCloseEnd?.();
+      return;
+    }
+
+    if (transition === "open") {
+      callbacks.current.onOpenEnd?.();
+    }
+
+    const translate = dragState.current.translate;
+    const index = getSnapPointTranslates().indexOf(translate);
+
+    if (index === -1) {
+      return;
+    }
+
+    const hasMoved =
+      lastSnap.current?.index !== index ||
+      lastSnap.current.translate !== translate;
+
+    if (transition === "open" || hasMoved) {
+      lastSnap.current = { index, translate };
+      callbacks.current.onSnap?.(snapPoints[index], index);
+    }
+  }, [getSnapPointTranslates, snapPoints]);
+
+  const animateOverlay = useCallback(
+    (opacity: number, duration?: number) => {
+      // Springs drive the overlay along with the drawer
+      if (isSpring) {
+        return;
+      }
+
+      const fadeDuration = prefersReducedMotion
+        ? REDUCED_MOTION_DURATION
+        : duration || DURATION;
+
+      animate({
+        element: overlayRef.current,
+        styles: {
+          opacity: `${opacity}`,
+        },
+        transition: `opacity ${fadeDuration}ms cubic-bezier(.39,.54,.1,.94)`,
+        animationRef: opacityAnimationRef,
+      });
+    },
+    [animate, isSpring, prefersReducedMotion]
+  );
+
+  const animateBackground = useCallback(
+    (progress: number, duration?: number) => {
+      const backgroundElement = getBackground();
+
+      // Springs drive the background along with the drawer, and reduced
+      // motion leaves it be
+      if (isSpring || prefersReducedMotion || !backgroundElement) {
+        return;
+      }
+
+      // Keep the origin while shrinking back so it doesn't jump
+      if (progress > 0) {
+        backgroundElement.style.transformOrigin =
+          getBackgroundTransformOrigin(backgroundElement);
+      }
+
+      const scale =
+        1 - (1 - getBackgroundOutScale(backgroundElement)) * progress;
+
+      animate({
+        element: backgroundElement,
+        styles: {
+          transform: `scale(${scale}) translateY(${
+            backgroundInset * progress
+          }px)`,
+          borderRadius: `${backgroundRadius * progress}px`,
+        },
+        transition: `transform ${
+          duration || DURATION
+        }ms cubic-bezier(.52,.05,0,.99), border-radius ${
+          duration || DURATION
+        }ms cubic-bezier(.52,.05,0,.99)`,
+        animationRef: backgroundAnimationRef,
+      });
+    },
+    [
+      animate,
+      backgroundInset,
+      backgroundRadius,
+      getBackground,
+      getBackgroundOutScale,
+      isSpring,
+      prefersReducedMotion,
+    ]
+  );
+
+  const animateToPosition = useCallback(
+    (
+      translate: number,
+      { duration, velocity }: { duration?: number; velocity?: number } = {}
+    ) => {
+      // Springs drive these along with the drawer
+      animateOverlay(getPresentationProgress(translate), duration);
+      animateBackground(getPresentationProgress(translate), duration);
+
+      if (prefersReducedMotion) {
+        const drawerElement = drawerRef.current;
+
+        if (!drawerElement) {
+          return;
+        }
+
+        stopSpringRef.current?.();
+        stopSpringRef.current = null;
+
+        const closedTranslate = getClosedTranslate();
+        const fadeTransition = `opacity ${REDUCED_MOTION_DURATION}ms ease-out`;
+
+        // Fade out where it stands rather than sliding away
+        if (translate >= closedTranslate) {
+          animate({
+            element: drawerElement,
+            styles: { opacity: "0" },
+            transition: fadeTransition,
+            animationRef: transformAnimationRef,
+            onComplete: handleSettle,
+          });
+          return;
+        }
+
+        const isHidden =
+          drawerElement.style.opacity === "0" ||
+          getRenderedTranslate(
+            side,
+            drawerElement.getBoundingClientRect(),
+            viewport
+          ) >= closedTranslate;
+
+        transformAnimationRef.current?.();
+        drawerElement.style.transition = "none";
+        drawerElement.style.transform = getSideTransform(side, translate);
+
+        if (isHidden) {
+          drawerElement.style.opacity = "0";
+          // Flush the jump so only the fade is transitioned
+          drawerElement.getBoundingClientRect();
+        }
+
+        animate({
+          element: drawerElement,
+          styles: { opacity: "1" },
+          transition: fadeTransition,
+          animationRef: transformAnimationRef,
+          onComplete: handleSettle,
+        });
+        return;
+      }
+
+      if (isSpring) {
+        const drawerElement = drawerRef.current;
+
+        if (!drawerElement) {
+          return;
+        }
+
+        // Carry on from wherever an interrupted spring had got to
+        const interruptedVelocity = stopSpringRef.current?.() ?? 0;
+        transformAnimationRef.current?.();
+        drawerElement.style.transition = "none";
+
+        stopSpringRef.current = animateSpring({
+          from: getRenderedTranslate(
+            side,
+            drawerElement.getBoundingClientRect(),
+            viewport
+          ),
+          to: translate,
+          velocity: velocity ?? interruptedVelocity,
+          config: springConfig,
+          onUpdate: (value) => {
+            drawerElement.style.transform = getSideTransform(side, value);
+            applyPresentationProgress(getPresentationProgress(value));
+          },
+          onComplete: () => {
+            stopSpringRef.current = null;
+            handleSettle();
+          },
+        });
+        return;
+      }
+
+      animate({
+        element: drawerRef.current,
+        styles: {
+          transform: getSideTransform(side, translate),
+        },
+        transition: `transform ${
+          duration || DURATION
+        }ms cubic-bezier(.52,.05,0,.99)`,
+        animationRef: transformAnimationRef,
+        onComplete: handleSettle,
+      });
+    },
+    [
+      animate,
+      animateBackground,
+      animateOverlay,
+      applyPresentationProgress,
+      getClosedTranslate,
+      getPresentationProgress,
+      handleSettle,
+      isSpring,
+      prefersReducedMotion,
+      side,
+      springConfig,
+      viewport,
+    ]
+  );
+
+  const animateRecede = useCallback(
+    (recede: boolean, duration?: number) => {
+      const drawerElement = drawerRef.current;
+
+      if (!drawerElement) {
+        return;
+      }
+
+      const { width, height } = drawerElement.getBoundingClientRect();
+      const size = isVertical ? width : height;
+      const scale =
+        recede && !prefersReducedMotion
+          ? (size - BACKGROUND_INSET - BACKGROUND_INSET) / size
+          : 1;
+
+      animate({
+        element: drawerElement,
+        styles: {
+          scale: `${scale}`,
+        },
+        transition: `scale ${
+          duration || DURATION
+        }ms cubic-bezier(.52,.05,0,.99)`,
+        animationRef: recedeAnimationRef,
+      });
+    },
+    [animate, isVertical, prefersReducedMotion]
+  );
+
+  useEffect(() => {
+    animateRecede(hasOpenChild);
+  }, [animateRecede, hasOpenChild]);
+
+  useEffect(() => {
+    const drawerElement = drawerRef.current;
+    const hasToggled = isOpen !== wasOpen.current;
+    wasOpen.current = isOpen;
+
+    if (hasToggled) {
+      pendingTransition.current = isOpen ? "open" : "close";
+      setAnnouncement(isOpen ? messages.opened : messages.closed);
+
+      if (isOpen) {
+        setIsMounted(true);
+        callbacks.current.onOpenStart?.();
+      } else {
+        callbacks.current.onCloseStart?.();
+      }
+    }
+
+    // Nothing to animate out, so the close finishes straight away
+    if (!drawerElement) {
+      if (hasToggled && !isOpen) {
+        handleSettle();
+      }
+      return;
+    }
+
+    // Leave a drag in progress alone when only the sizes have changed
+    if (!hasToggled && dragState.current.isDragging) {
+      return;
+    }
+
+    if (isOpen) {
+      // Content that's grown past the viewport only starts scrolling once the
+      // drawer has settled, so no scrollbar flashes up on the way
+      if (!hasToggled && contentRef.current) {
+        contentRef.current.style.overflowY = "hidden";
+      }
+
+      dragState.current.translate = getSnapPointTranslates()[activeSnapIndex];
+      animateToPosition(dragState.current.translate);
+    } else {
+      dragState.current.translate = getClosedTranslate();
+      animateToPosition(dragState.current.translate);
+    }
+  }, [
+    animateToPosition,
+    drawerContentSize,
+    getBackgroundOutScale,
+    getClosedTranslate,
+    activeSnapIndex,
+    getSnapPointTranslates,
+    handleSettle,
+    isClient,
+    isOpen,
+    messages.closed,
+    messages.opened,
+    viewportSize,
+  ]);
+
+  const snapToIndex = useCallback(
+    (index: number) => {
+      if (index < 0 || index >= snapPoints.length) {
+        return;
+      }
+
+      dragState.current.translate = getSnapPointTranslates()[index];
+      animateToPosition(dragState.current.translate);
+      setActiveSnapPoint(snapPoints[index]);
+    },
+    [animateToPosition, getSnapPointTranslates, setActiveSnapPoint, snapPoints]
+  );
+
+  // Nudges the drawer along its axis to show it won't close
+  const shake = useCallback(() => {
+    const drawerElement = drawerRef.current;
+
+    if (!drawerElement || prefersReducedMotion) {
+      return;
+    }
+
+    stopShakeRef.current?.();
+    stopShakeRef.current = animateSpring({
+      from: 0,
+      to: 0,
+      velocity: SHAKE_VELOCITY * getSideSign(side),
+      config: SHAKE_SPRING_CONFIG,
+      onUpdate: (value) => {
+        drawerElement.style.translate = isVertical
+          ? `0 ${value}px`
+          : `${value}px 0`;
+      },
+      onComplete: () => {
+        drawerElement.style.translate = "";
+        stopShakeRef.current = null;
+      },
+    });
+  }, [isVertical, prefersReducedMotion, side]);
+
+  const isClosePending = useRef(false);
+
+  // Closes the drawer if `reason` is allowed and `onBeforeClose` agrees,
+  // otherwise springs back to the active snap point. `beforeClose` runs just
+  // ahead of `onClose` so a drag can send the drawer off with its velocity.
+  const requestClose = useCallback(
+    (reason: CloseReason, beforeClose?: () => void) => {
+      if (!isDismissible(dismissible, reason)) {
+        return;
+      }
+
+      // Another close is still being decided, so don't leave a dragged sheet
+      // stranded where it was released
+      if (isClosePending.current) {
+        dragState.current.translate = getSnapPointTranslates()[activeSnapIndex];
+        animateToPosition(dragState.current.translate);
+        return;
+      }
+
+      const close = (allowed: boolean | void) => {
+        if (allowed === false) {
+          dragState.current.translate =
+            getSnapPointTranslates()[activeSnapIndex];
+          animateToPosition(dragState.current.translate);
+          shake();
+          return;
+        }
+
+        beforeClose?.();
+        onClose(reason);
+      };
+
+      const result = onBeforeClose?.(reason);
+
+      if (!(result instanceof Promise)) {
+        close(result);
+        return;
+      }
+
+      isClosePending.current = true;
+      result
+        .then(close, () => close(false))
+        .finally(() => {
+          isClosePending.current = false;
+        });
+    },
+    [
+      activeSnapIndex,
+      animateToPosition,
+      dismissible,
+      getSnapPointTranslates,
+      onBeforeClose,
+      onClose,
+      shake,
+    ]
+  );
+
+  // Only the topmost drawer closes on Escape
+  const handleEscape = useCallback(() => {
+    if (openChildCount.current === 0) {
+      requestClose("escape");
+    }
+  }, [requestClose]);
+
+  useKeyPress("Escape", handleEscape);
+
+  const drawerContext = useMemo<DrawerContextValue>(
+    () => ({
+      titleId,
+      messages,
+      side,
+      snapPointCount: snapPoints.length,
+      activeSnapIndex,
+      describeSnapPoint,
+      snapTo: snapToIndex,
+      registerTitle,
+      registerOpenChild: () => {
+        openChildCount.current += 1;
+        setHasOpenChild(true);
+
+        return () => {
+          openChildCount.current -= 1;
+          setHasOpenChild(openChildCount.current > 0);
+        };
+      },
+    }),
+    [
+      activeSnapIndex,
+      describeSnapPoint,
+      messages,
+      registerTitle,
+      side,
+      snapPoints.length,
+      snapToIndex,
+      titleId,
+    ]
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      open: () => {
+        if (!isOpen) {
+          onOpenRequest?.();
+          return;
+        }
+
+        dragState.current.translate = getSnapPointTranslates()[activeSnapIndex];
+        animateToPosition(dragState.current.translate);
+      },
+      close: () => {
+        requestClose("programmatic");
+      },
+      snapTo: (snapPoint) => {
+        snapToIndex(
+          typeof snapPoint === "number"
+            ? snapPoint
+            : snapPointNames?.indexOf(snapPoint) ?? -1
+        );
+      },
+      getTranslateY: () => {
+        const isAnimating =
+          !!stopSpringRef.current || !!transformAnimationRef.current;
+
+        if (isAnimating && drawerRef.current) {
+          return getRenderedTranslate(
+            side,
+            drawerRef.current.getBoundingClientRect(),
+            viewport
+          );
+        }
+
+        return dragState.current.translate;
+      },
+      isDragging: () => dragState.current.isDragging,
+    }),
+    [
+      activeSnapIndex,
+      animateToPosition,
+      getSnapPointTranslates,
+      isOpen,
+      onOpenRequest,
+      requestClose,
+      side,
+      snapPointNames,
+      snapToIndex,
+      viewport,
+    ]
+  );
+
+  useEffect(() => {
+    return () => {
+      stopSpringRef.current?.();
+      stopShakeRef.current?.();
+      stopScrollMomentumRef.current?.();
+    };
+  }, []);
+
+  // Keep the field being typed into visible as an on-screen keyboard comes up
+  // and the drawer shrinks to fit above it
+  useEffect(() => {
+    const focusedElement = document.activeElement;
+
+    if (
+      contentRef.current &&
+      focusedElement instanceof HTMLElement &&
+      contentRef.current.contains(focusedElement)
+    ) {
+      scrollIntoContentView(contentRef.current, focusedElement);
+    }
+  }, [viewportHeight]);
+
+  // Reopen at the default snap point rather than wherever the drawer was left
+  useEffect(() => {
+    if (!isOpen) {
+      resetActiveSnapPoint(defaultSnapPoint ?? snapPoints[0]);
+    }
+  }, [defaultSnapPoint, isOpen, resetActiveSnapPoint, snapPoints]);
+
+  // Drag handler
+  useEffect(() => {
+    const drawerElement = drawerRef.current;
+
+    if (!drawerElement) {
+      return;
+    }
+
+    // A closing drawer ignores input so it can't be caught mid-close
+    const handleClick = (e: MouseEvent) => {
+      if (!isOpen) {
+        return;
+      }
+
+      // Find closest button with role="close" to the clicked element
+      const target = e.target as HTMLElement;
+      const closeButton = target.closest('button[slot="close"]');
+
+      if (closeButton) {
+        requestClose("closeButton");
+      }
+    };
+
+    const handleDragStart = (e: PointerEvent) => {
+      // Ignore extra fingers and anything but the main mouse button
+      if (
+        !isOpen ||
+        !e.isPrimary ||
+        dragState.current.pointerId !== null ||
+        (e.pointerType === "mouse" && e.button !== 0)
+      ) {
+        return;
+      }
+
+      // Catch the drawer and its content wherever they are mid-animation
+      stopSpringRef.current?.();
+      stopSpringRef.current = null;
+      stopScrollMomentumRef.current?.();
+
+      dragState.current.isDragging = true;
+      dragState.current.pointerId = e.pointerId;
+      dragState.current.dragStartPosition = getPointerPosition(side, e);
+      dragState.current.lastPointerPosition =
+        dragState.current.dragStartPosition;
+      dragState.current.dragStartTranslate = getRenderedTranslate(
+        side,
+        drawerElement.getBoundingClientRect(),
+        viewport
+      );
+      dragState.current.samples = [
+        {
+          position: dragState.current.dragStartTranslate,
+          time: performance.now(),
+        },
+      ];
+      dragState.current.translate = dragState.current.dragStartTranslate;
+      transformAnimationRef.current?.();
+      drawerElement.style.transition = "none";
+      drawerElement.style.transform = getSideTransform(
+        side,
+        dragState.current.dragStartTranslate
+      );
+
+      if (contentRef.current) {
+        contentRef.current.style.overflowY = "";
+      }
+      // Content only scrolls along the drag axis of bottom drawers
+      dragState.current.startedInContent =
+        side === "bottom" && !!contentRef.current?.contains(e.target as Node);
+      dragState.current.scrollSamples = [
+        {
+          position: contentRef.current?.scrollTop ?? 0,
+          time: performance.now(),
+        },
+      ];
+      dragState.current.hasTravelled = false;
+      dragState.current.touchStartedOnDrawer = true;
+      document.body.style.userSelect = "none";
+    };
+
+    const handleDragMove = (e: PointerEvent) => {
+      if (
+        !dragState.current.isDragging ||
+        e.pointerId !== dragState.current.pointerId
+      ) {
+        return;
+      }
+      const pointerPosition = getPointerPosition(side, e);
+      const diff = pointerPosition - dragState.current.dragStartPosition;
+      const delta = pointerPosition - dragState.current.lastPointerPosition;
+      dragState.current.lastPointerPosition = pointerPosition;
+
+      const scrollElement = contentRef.current;
+      const movement =
+        dragState.current.startedInContent && scrollElement
+          ? consumeScrollDelta({
+              delta,
+              scrollElement,
+              translate: dragState.current.translate,
+              topTranslate: Math.min(...getSnapPointTranslates()),
+            })
+          : delta;
+
+      const newTranslate = dragState.current.translate + movement;
+
+      dragState.current.translate = newTranslate;
+
+      const now = performance.now();
+      dragState.current.samples = [
+        ...dragState.current.samples.filter(
+          ({ time }) => now - time <= VELOCITY_SAMPLE_DURATION
+        ),
+        { position: newTranslate, time: now },
+      ];
+
+      if (scrollElement) {
+        dragState.current.scrollSamples = [
+          ...dragState.current.scrollSamples.filter(
+            ({ time }) => now - time <= VELOCITY_SAMPLE_DURATION
+          ),
+          { position: scrollElement.scrollTop, time: now },
+        ];
+      }
+
+      // Stretch past the end of the drawer's range with some resistance
+      const topTranslate = Math.min(...getSnapPointTranslates());
+      const closedTranslate = getClosedTranslate();
+      const renderedTranslate = applyOverdrag(dragState.current.translate, {
+        min: topTranslate,
+        // Without drag to dismiss the drawer resists below its lowest snap point
+        max: isDismissible(dismissible, "drag")
+          ? closedTranslate
+          : Math.max(...getSnapPointTranslates()),
+        overdrag,
+      });
+      drawerElement.style.transform = getSideTransform(side, renderedTranslate);
+
+      if (Math.abs(diff) < DRAG_THRESHOLD) {
+        return;
+      }
+
+      if (!dragState.current.hasTravelled) {
+        dragState.current.hasTravelled = true;
+        // Capture once it's clearly a drag so taps still click through to
+        // buttons inside the drawer
+        drawerElement.setPointerCapture(e.pointerId);
+        callbacks.current.onDragStart?.();
+      }
+
+      callbacks.current.onDrag?.(
+        Math.max(
+          0,
+          Math.min(
+            1,
+            (closedTranslate - renderedTranslate) /
+              (closedTranslate - topTranslate)
+          )
+        ),
+        renderedTranslate
+      );
+
+      applyPresentationProgress(getPresentationProgress(renderedTranslate));
+    };
+
+    const finishDrag = () => {
+      dragState.current.isDragging = false;
+      dragState.current.pointerId = null;
+      document.body.style.userSelect = "";
+
+      if (dragState.current.hasTravelled) {
+        callbacks.current.onDragEnd?.();
+      }
+
+      requestAnimationFrame(() => {
+        dragState.current.touchStartedOnDrawer = false;
+      });
+    };
+
+    const handleDragEnd = (e: PointerEvent) => {
+      // Releases outside of a drag shouldn't move the drawer
+      if (
+        !dragState.current.isDragging ||
+        e.pointerId !== dragState.current.pointerId
+      ) {
+        return;
+      }
+
+      finishDrag();
+
+      // Closed mid-drag, so the close animation already has the drawer
+      if (!isOpen) {
+        return;
+      }
+
+      const releaseTime = performance.now();
+      const snapPositions = getSnapPointTranslates();
+      const velocity = getReleaseVelocity(
+        dragState.current.samples,
+        releaseTime
+      );
+
+      // Let content that was being scrolled carry on under its own momentum
+      const scrollVelocity = getReleaseVelocity(
+        dragState.current.scrollSamples,
+        releaseTime
+      );
+
+      if (
+        dragState.current.startedInContent &&
+        contentRef.current &&
+        scrollVelocity !== 0
+      ) {
+        stopScrollMomentumRef.current = animateScrollMomentum(
+          contentRef.current,
+          scrollVelocity
+        );
+      }
+      const snapTargetIndex = getSnapTargetIndex({
+        positions: snapPositions,
+        currentPosition: dragState.current.translate,
+        closedPosition: getClosedTranslate(),
+        velocity,
+        hasTravelled: dragState.current.hasTravelled,
+        dismissThreshold,
+        velocityThreshold,
+      });
+      // Without drag to dismiss the drawer settles at its least expanded
+      // snap point instead
+      const targetIndex =
+        snapTargetIndex === null && !isDismissible(dismissible, "drag")
+          ? snapPositions.indexOf(Math.max(...snapPositions))
+          : snapTargetIndex;
+
+      if (targetIndex === null) {
+        // Stays where it was let go until the close is allowed or refused
+        requestClose("drag", () => {
+          dragState.current.translate = getClosedTranslate();
+          animateToPosition(dragState.current.translate, { velocity });
+        });
+      } else {
+        dragState.current.translate = snapPositions[targetIndex];
+        animateToPosition(dragState.current.translate, { velocity });
+        setActiveSnapPoint(snapPoints[targetIndex]);
+      }
+    };
+
+    // The browser took over the gesture or the window lost focus, so put the
+    // drawer back where the drag started rather than guessing an intent
+    const handleDragCancel = (e: PointerEvent | FocusEvent) => {
+      if (
+        !dragState.current.isDragging ||
+        (e instanceof PointerEvent &&
+          e.pointerId !== dragState.current.pointerId)
+      ) {
+        return;
+      }
+
+      finishDrag();
+
+      if (!isOpen) {
+        return;
+      }
+
+      dragState.current.translate = getSnapPointTranslates()[activeSnapIndex];
+      animateToPosition(dragState.current.translate);
+    };
+
+    drawerElement.addEventListener("click", handleClick);
+    drawerElement.addEventListener("pointerdown", handleDragStart);
+    drawerElement.addEventListener("lostpointercapture", handleDragCancel);
+    window.addEventListener("pointermove", handleDragMove);
+    window.addEventListener("pointerup", handleDragEnd);
+    window.addEventListener("pointercancel", handleDragCancel);
+    window.addEventListener("blur", handleDragCancel);
+
+    return () => {
+      drawerElement.removeEventListener("click", handleClick);
+      drawerElement.removeEventListener("pointerdown", handleDragStart);
+      drawerElement.removeEventListener("lostpointercapture", handleDragCancel);
+      window.removeEventListener("pointermove", handleDragMove);
+      window.removeEventListener("pointerup", handleDragEnd);
+      window.removeEventListener("pointercancel", handleDragCancel);
+      window.removeEventListener("blur", handleDragCancel);
+    };
+  }, [
+    activeSnapIndex,
+    animateToPosition,
+    applyPresentationProgress,
+    dismissible,
+    dismissThreshold,
+    getClosedTranslate,
+    getPresentationProgress,
+    getSnapPointTranslates,
+    isOpen,
+    overdrag,
+    requestClose,
+    setActiveSnapPoint,
+    side,
+    snapPoints,
+    velocityThreshold,
+    viewport,
+  ]);
+
+  // There's no document.body to portal into on the server, so the drawer
+  // renders after hydration
+  if (!isClient) {
+    return null;
+  }
+
+  return createPortal(
+    <>
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+      {(isOpen || isMounted) && (
+        <>
+          <div
+            ref={overlayRef}
+            className="fixed inset-0 bg-black/50 z-10"
+            onClick={(e) => {
+              if (
+                !drawerRef.current?.contains(e.target as Node) &&
+                !dragState.current.touchStartedOnDrawer
+              ) {
+                requestClose("overlay");
+              }
+            }}
+            style={{
+              opacity: 0,
+              pointerEvents: isOpen ? "auto" : "none",
+            }}
+          ></div>
+          <div
+            ref={drawerRef}
+            role="dialog"
+            aria-modal
+            aria-label={ariaLabel}
+            aria-labelledby={ariaLabel || !hasTitle ? undefined : titleId}
+            tabIndex={-1}
+            className={`fixed ${SIDE_CLASS_NAMES[side]} bg-white flex flex-col z-10 outline-none`}
+            style={{
+              ...getSideViewportInsets(side, viewport),
+              [isVertical ? "maxHeight" : "maxWidth"]: viewportSize,
+              [isVertical ? "height" : "width"]: isContentSized(snapPoints)
+                ? "auto"
+                : viewportSize + DAMPED_TRANSLATE_LIMIT,
+              boxShadow: "rgba(99, 99, 99, 0.2) 0px 2px 8px 0px",
+              transition: "none",
+              transform: getSideClosedTransform(side),
+              transformOrigin: SIDE_TRANSFORM_ORIGINS[side],
+              // Leave the drag axis to the gesture handler
+              touchAction: isVertical ? "pan-x" : "pan-y",
+              ...getSafeAreaPadding(side, safeAreaInsets),
+            }}
+          >
+            {/* Fills the gap behind the drawer when it's stretched open */}
+            <div
+              aria-hidden
+              className={`absolute bg-white ${SIDE_FILLER_CLASS_NAMES[side]}`}
+              style={{ [isVertical ? "height" : "width"]: viewportSize }}
+            />
+            <DrawerContext.Provider value={drawerContext}>
+              {header}
+              <div
+                ref={contentRef}
+                className="flex-1 overflow-y-auto"
+                // Only bottom drawers hand content scrolling to the gesture
+                // handler, the rest leave it to the browser
+                style={{ touchAction: side === "bottom" ? "pan-x" : "pan-y" }}
+              >
+                {children}
+              </div>
+            </DrawerContext.Provider>
+          </div>
+        </>
+      )}
+    </>,
+    document.body
+  );
+};
@@ -0,0 +1,30 @@
+import { createContext } from "react";
+import type { DrawerMessages } from "./messages";
+import type { DrawerSide } from "./side";
+
+export type DrawerContextValue = {
+  /** Id for the heading that names the drawer */
+  titleId: string;
+  messages: DrawerMessages;
+  side: DrawerSide;
+  snapPointCount: number;
+  activeSnapIndex: number;
+  /** The snap point's name, or a description of where it sits */
+  describeSnapPoint: (index: number) => string;
+  /** Animates to a snap point the same way releasing a drag does */
+  snapTo: (index: number) => void;
+  /**
+   * Called by a header when it renders the title, so the drawer is only
+   * labelled by it while it exists. Returns a function to call on unmount.
+   */
+  registerTitle: () => () => void;
+  /**
+   * Called by a nested drawer when it opens. Returns a function to call when
+   * it closes again.
+   */
+  registerOpenChild: () => () => void;
+};
+
+// Set by every open drawer so its parts can reach it and drawers rendered
+// inside it know they're nested
+export const DrawerContext = createContext<DrawerContextValue | null>(null);
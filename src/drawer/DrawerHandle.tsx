@@ -0,0 +1,97 @@
+import { useContext } from "react";
+import { DrawerContext } from "./DrawerContext";
+import { isVerticalSide } from "./side";
+
+export type DrawerHandleProps = {
+  direction?: "up" | "down" | null;
+};
+
+export const DrawerHandle = ({ direction }: DrawerHandleProps) => {
+  const drawer = useContext(DrawerContext);
+  const width = 48;
+  const height = 16;
+  const strokeWidth = 3;
+
+  const graphic = (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      aria-hidden
+    >
+      <path
+        d={`M${strokeWidth / 2},${height / 2} L${width / 2},${
+          direction === "up"
+            ? strokeWidth
+            : direction === "down"
+            ? height - strokeWidth
+            : height / 2
+        } L${width - strokeWidth / 2},${height / 2}`}
+        stroke="rgb(229 229 229)"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        fill="none"
+      />
+    </svg>
+  );
+
+  // Outside a drawer, or with nowhere to move to, the handle is decorative
+  if (!drawer || drawer.snapPointCount < 2) {
+    return (
+      <div className="w-full flex items-center justify-center p-4">
+        {graphic}
+      </div>
+    );
+  }
+
+  const { activeSnapIndex, snapPointCount, snapTo } = drawer;
+  const lastIndex = snapPointCount - 1;
+
+  // Slider keys step through the snap points, most collapsed first
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    let index: number;
+
+    switch (e.key) {
+      case "ArrowUp":
+      case "ArrowRight":
+        index = Math.min(lastIndex, activeSnapIndex + 1);
+        break;
+      case "ArrowDown":
+      case "ArrowLeft":
+        index = Math.max(0, activeSnapIndex - 1);
+        break;
+      case "Home":
+        index = 0;
+        break;
+      case "End":
+        index = lastIndex;
+        break;
+      case "Enter":
+      case " ":
+        index = activeSnapIndex === lastIndex ? 0 : activeSnapIndex + 1;
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    snapTo(index);
+  };
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={drawer.messages.handle}
+      aria-orientation={isVerticalSide(drawer.side) ? "vertical" : "horizontal"}
+      aria-valuemin={0}
+      aria-valuemax={lastIndex}
+      aria-valuenow={activeSnapIndex}
+      aria-valuetext={drawer.describeSnapPoint(activeSnapIndex)}
+      onKeyDown={handleKeyDown}
+      className="w-full flex items-center justify-center p-4 rounded-xl outline-none focus-visible:bg-neutral-950/5"
+    >
+      {graphic}
+    </div>
+  );
+};
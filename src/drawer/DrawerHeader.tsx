@@ -0,0 +1,50 @@
+import { useContext, useEffect } from "react";
+import { DrawerContext } from "./DrawerContext";
+import { DEFAULT_MESSAGES } from "./messages";
+
+export type DrawerHeaderProps = {
+  headingText: string;
+  /** Overrides the drawer's `messages.close` for the close button */
+  closeLabel?: string;
+};
+
+export const DrawerHeader = ({
+  headingText,
+  closeLabel,
+}: DrawerHeaderProps) => {
+  const drawer = useContext(DrawerContext);
+  const registerTitle = drawer?.registerTitle;
+
+  useEffect(() => registerTitle?.(), [registerTitle]);
+
+  return (
+    <div className="flex justify-between items-center p-4">
+      <h3
+        id={drawer?.titleId}
+        className="text-neutral-950 text-lg font-semibold"
+      >
+        {headingText}
+      </h3>
+      <button
+        slot="close"
+        aria-label={
+          closeLabel ?? drawer?.messages.close ?? DEFAULT_MESSAGES.close
+        }
+        className="text-neutral-500 hover:text-neutral-950 w-10 h-10 flex items-center justify-center hover:bg-neutral-950/5 rounded-full -m-2"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          aria-hidden
+        >
+          <path
+            fill="currentColor"
+            d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"
+          />
+        </svg>
+      </button>
+    </div>
+  );
+};
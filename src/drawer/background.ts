@@ -0,0 +1,32 @@
+/**
+ * The page content behind the drawer, which shrinks back while the drawer is
+ * open. "none" leaves it alone.
+ */
+export type DrawerBackground =
+  | "none"
+  | {
+      /** Defaults to the element with the id "root" */
+      element?: HTMLElement | React.RefObject<HTMLElement | null>;
+      /** Overrides the scale worked out from `inset` */
+      scale?: number;
+      /** Space in px left either side of and above the scaled background */
+      inset?: number;
+      /** Corner radius in px of the scaled background */
+      radius?: number;
+    };
+
+export const getBackgroundElement = (
+  element: HTMLElement | React.RefObject<HTMLElement | null> | undefined
+) => {
+  if (!element) {
+    return document.getElementById("root");
+  }
+
+  return element instanceof HTMLElement ? element : element.current;
+};
+
+// Scales around the top of the viewport rather than the top of the element,
+// so a scrolled page shrinks towards what's on screen
+export const getBackgroundTransformOrigin = (element: HTMLElement) => {
+  return `center ${window.scrollY - element.offsetTop}px`;
+};
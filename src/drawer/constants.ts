@@ -0,0 +1,22 @@
+export const DURATION = 400;
+export const FULL_HEIGHT_OFFSET = 20;
+export const BACKGROUND_INSET = 8;
+export const BACKGROUND_RADIUS = 10;
+export const DAMPED_TRANSLATE_LIMIT = 10;
+// Furthest the drawer stretches past the end of its range by default
+export const OVERDRAG_LIMIT = 40;
+// Pointer travel before a press counts as a drag
+export const DRAG_THRESHOLD = 15;
+// Fraction of the way from the lowest snap point to closed past which a
+// release dismisses the drawer
+export const DISMISS_THRESHOLD = 0.5;
+// Release speed in px/ms above which a drag counts as a flick
+export const VELOCITY_THRESHOLD = 0.4;
+// How far back pointer samples are kept to measure release velocity
+export const VELOCITY_SAMPLE_DURATION = 100;
+// How far ahead the release velocity is projected to pick a resting position
+export const VELOCITY_PROJECTION_DURATION = 150;
+// Length of the fades that stand in for movement under reduced motion
+export const REDUCED_MOTION_DURATION = 150;
+// Kick in px/ms given to the shake when a close is refused
+export const SHAKE_VELOCITY = 0.3;
@@ -0,0 +1,30 @@
+/** What closed the drawer, passed to `onClose` */
+export type CloseReason =
+  | "overlay"
+  | "escape"
+  | "closeButton"
+  | "drag"
+  | "programmatic";
+
+/**
+ * Which ways the user can close the drawer, either all at once or per
+ * reason. Closing through the drawer's ref is always allowed.
+ */
+export type Dismissible =
+  | boolean
+  | Partial<Record<Exclude<CloseReason, "programmatic">, boolean>>;
+
+export const isDismissible = (
+  dismissible: Dismissible,
+  reason: CloseReason
+) => {
+  if (reason === "programmatic") {
+    return true;
+  }
+
+  if (typeof dismissible === "boolean") {
+    return dismissible;
+  }
+
+  return dismissible[reason] ?? true;
+};
@@ -0,0 +1,416 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import {
+  NO_SAFE_AREA_INSETS,
+  readSafeAreaInsets,
+  type SafeAreaInsets,
+} from "./safeArea";
+
+export type ViewportSize = {
+  width: number;
+  height: number;
+  /** How far the visible area has been scrolled down the page */
+  offsetTop: number;
+  /** How much of the page is covered at the bottom, e.g. by a keyboard */
+  offsetBottom: number;
+};
+
+// The visual viewport shrinks for on-screen keyboards and browser toolbars,
+// which innerHeight doesn't. Widths stay on the layout viewport so pinch
+// zooming doesn't move side drawers.
+const getViewportSize = (): ViewportSize => {
+  const visualViewport = window.visualViewport;
+  const height = visualViewport?.height ?? window.innerHeight;
+  const offsetTop = visualViewport?.offsetTop ?? 0;
+
+  return {
+    width: window.innerWidth,
+    height,
+    offsetTop,
+    offsetBottom: Math.max(0, window.innerHeight - offsetTop - height),
+  };
+};
+
+// What the server renders with, before there's a viewport to measure
+const SERVER_VIEWPORT_SIZE: ViewportSize = {
+  width: 0,
+  height: 0,
+  offsetTop: 0,
+  offsetBottom: 0,
+};
+
+// Shared by every subscriber and only replaced when the size changes, as
+// useSyncExternalStore needs a stable snapshot
+let viewportSizeSnapshot = SERVER_VIEWPORT_SIZE;
+
+const getViewportSizeSnapshot = () => {
+  const viewportSize = getViewportSize();
+
+  // Scrolling the visual viewport fires often, so only update on changes
+  if (
+    (Object.keys(viewportSize) as (keyof ViewportSize)[]).some(
+      (key) => viewportSize[key] !== viewportSizeSnapshot[key]
+    )
+  ) {
+    viewportSizeSnapshot = viewportSize;
+  }
+
+  return viewportSizeSnapshot;
+};
+
+const subscribeToViewportSize = (onChange: () => void) => {
+  // Measure at most once a frame however many events fire
+  let frame: number | null = null;
+  const scheduleChange = () => {
+    if (frame === null) {
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        onChange();
+      });
+    }
+  };
+
+  window.addEventListener("resize", scheduleChange);
+  window.visualViewport?.addEventListener("resize", scheduleChange);
+  window.visualViewport?.addEventListener("scroll", scheduleChange);
+  return () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+    }
+
+    window.removeEventListener("resize", scheduleChange);
+    window.visualViewport?.removeEventListener("resize", scheduleChange);
+    window.visualViewport?.removeEventListener("scroll", scheduleChange);
+  };
+};
+
+// Zero on the server and while hydrating, then measured before the first
+// client paint so nothing flashes at the wrong size
+export const useViewportSize = () => {
+  return useSyncExternalStore(
+    subscribeToViewportSize,
+    getViewportSizeSnapshot,
+    () => SERVER_VIEWPORT_SIZE
+  );
+};
+
+export const useSafeAreaInsets = (isEnabled = true) => {
+  const [insets, setInsets] = useState<SafeAreaInsets>(NO_SAFE_AREA_INSETS);
+
+  // Measured before paint so content doesn't shift once the insets arrive
+  useLayoutEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
+
+    // Insets move around as the device rotates
+    const handleResize = () => {
+      const nextInsets = readSafeAreaInsets();
+
+      setInsets((previousInsets) =>
+        (Object.keys(nextInsets) as (keyof SafeAreaInsets)[]).every(
+          (key) => nextInsets[key] === previousInsets[key]
+        )
+          ? previousInsets
+          : nextInsets
+      );
+    };
+
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, [isEnabled]);
+
+  return isEnabled ? insets : NO_SAFE_AREA_INSETS;
+};
+
+export const useViewportHeight = () => {
+  return useViewportSize().height;
+};
+
+/**
+ * "system" follows the user's prefers-reduced-motion setting, "always" and
+ * "never" override it
+ */
+export type ReducedMotion = "system" | "always" | "never";
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+const subscribeToReducedMotion = (onChange: () => void) => {
+  const mediaQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+  mediaQuery.addEventListener("change", onChange);
+  return () => mediaQuery.removeEventListener("change", onChange);
+};
+
+export const useReducedMotion = (reducedMotion: ReducedMotion) => {
+  const prefersReducedMotion = useSyncExternalStore(
+    subscribeToReducedMotion,
+    () => window.matchMedia(REDUCED_MOTION_QUERY).matches,
+    () => false
+  );
+
+  if (reducedMotion === "system") {
+    return prefersReducedMotion;
+  }
+
+  return reducedMotion === "always";
+};
+
+const subscribeToNothing = () => () => {};
+
+// False on the server and while hydrating, so work that needs the DOM can
+// wait until the markup matches
+export const useIsClient = () => {
+  return useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false
+  );
+};
+
+export const useKeyPress = (key: string, callback: () => void) => {
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      if (e.key === key) {
+        callback();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyPress);
+    return () => document.removeEventListener("keydown", handleKeyPress);
+  }, [key, callback]);
+};
+
+export const useBoundingClientRect = (
+  ref: React.RefObject<HTMLElement | null>,
+  deps: unknown[]
+) => {
+  const [boundingClientRect, setBoundingClientRect] = useState<
+    Partial<DOMRect>
+  >({
+    height: 0,
+    width: 0,
+  });
+
+  useLayoutEffect(() => {
+    if (ref.current) {
+      setBoundingClientRect(ref.current.getBoundingClientRect());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ref, ...deps]);
+
+  return boundingClientRect;
+};
+
+// Tracks an element's size as it changes for any reason, e.g. images loading
+// or content expanding. Sizes ignore transforms and update at most once a
+// frame. Pass `isActive` as the element mounts so it gets observed.
+export const useElementSize = (
+  ref: React.RefObject<HTMLElement | null>,
+  isActive: boolean
+) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+
+    if (!isActive || !element) {
+      return;
+    }
+
+    const measure = () => {
+      const width = element.offsetWidth;
+      const height = element.offsetHeight;
+
+      setSize((previousSize) =>
+        previousSize.width === width && previousSize.height === height
+          ? previousSize
+          : { width, height }
+      );
+    };
+
+    let frame: number | null = null;
+    const resizeObserver = new ResizeObserver(() => {
+      if (frame === null) {
+        frame = requestAnimationFrame(() => {
+          frame = null;
+          measure();
+        });
+      }
+    });
+
+    measure();
+    resizeObserver.observe(element);
+    return () => {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+
+      resizeObserver.disconnect();
+    };
+  }, [ref, isActive]);
+
+  return size;
+};
+
+// Counted so stacked drawers don't unlock the page while one is still open
+let bodyScrollLockCount = 0;
+
+export const usePreventBodyScroll = (isOpen: boolean) => {
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    bodyScrollLockCount += 1;
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      bodyScrollLockCount -= 1;
+
+      if (bodyScrollLockCount === 0) {
+        document.body.style.overflow = "";
+      }
+    };
+  }, [isOpen]);
+};
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "iframe",
+  "[contenteditable='true']",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+const getFocusableElements = (container: HTMLElement) => {
+  return Array.from(
+    container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+  ).filter((element) => !element.closest("[aria-hidden='true']"));
+};
+
+// Containers with an active trap, most recently activated last. Only the last
+// one traps, so a nested drawer portalled outside its parent can take focus
+// before the parent hears that it's opened.
+const activeFocusTraps: HTMLElement[] = [];
+
+// Keeps keyboard focus inside the container while active
+export const useFocusTrap = (
+  ref: React.RefObject<HTMLElement | null>,
+  isActive: boolean
+) => {
+  useEffect(() => {
+    const container = ref.current;
+
+    if (!isActive || !container) {
+      return;
+    }
+
+    activeFocusTraps.push(container);
+
+    if (!container.contains(document.activeElement)) {
+      container.focus({ preventScroll: true });
+    }
+
+    const isTopmost = () =>
+      activeFocusTraps[activeFocusTraps.length - 1] === container;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Tab" || !isTopmost()) {
+        return;
+      }
+
+      const focusableElements = getFocusableElements(container);
+      const first = focusableElements[0];
+      const last = focusableElements[focusableElements.length - 1];
+
+      if (!first) {
+        e.preventDefault();
+        return;
+      }
+
+      if (
+        e.shiftKey &&
+        (document.activeElement === first ||
+          document.activeElement === container)
+      ) {
+        e.preventDefault();
+        last.focus({ preventScroll: true });
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus({ preventScroll: true });
+      }
+    };
+
+    // Pull focus back if it escapes some other way, e.g. a click behind
+    const handleFocusIn = (e: FocusEvent) => {
+      if (isTopmost() && !container.contains(e.target as Node)) {
+        container.focus({ preventScroll: true });
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("focusin", handleFocusIn);
+    return () => {
+      activeFocusTraps.splice(activeFocusTraps.lastIndexOf(container), 1);
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("focusin", handleFocusIn);
+    };
+  }, [ref, isActive]);
+};
+
+// Returns focus to whatever had it before opening, usually the trigger
+export const useRestoreFocus = (isOpen: boolean) => {
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const previouslyFocused = document.activeElement;
+
+    return () => {
+      if (previouslyFocused instanceof HTMLElement) {
+        previouslyFocused.focus({ preventScroll: true });
+      }
+    };
+  }, [isOpen]);
+};
+
+// Follows React's controlled/uncontrolled pattern: the value prop wins when
+// it's defined, otherwise the hook keeps its own state
+export const useControllableState = <T>({
+  value,
+  defaultValue,
+  onChange,
+}: {
+  value: T | undefined;
+  defaultValue: T;
+  onChange?: (value: T) => void;
+}) => {
+  const [uncontrolledValue, setUncontrolledValue] = useState(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : uncontrolledValue;
+
+  const setValue = useCallback(
+    (nextValue: T) => {
+      if (!isControlled) {
+        setUncontrolledValue(nextValue);
+      }
+
+      if (nextValue !== currentValue) {
+        onChange?.(nextValue);
+      }
+    },
+    [currentValue, isControlled, onChange]
+  );
+
+  return [currentValue, setValue, setUncontrolledValue] as const;
+};
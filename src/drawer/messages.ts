@@ -0,0 +1,23 @@
+/** Text the drawer shows or announces, overridable for localization */
+export type DrawerMessages = {
+  close: string;
+  /** Label for the handle's slider */
+  handle: string;
+  /** Describes a snap point that doesn't have a name */
+  snapPoint: (index: number, count: number) => string;
+  // Announced to screen readers as the drawer moves
+  opened: string;
+  expanded: (snapPoint: string) => string;
+  collapsed: (snapPoint: string) => string;
+  closed: string;
+};
+
+export const DEFAULT_MESSAGES: DrawerMessages = {
+  close: "Close",
+  handle: "Drawer size",
+  snapPoint: (index, count) => `${index + 1} of ${count}`,
+  opened: "Drawer opened",
+  expanded: (snapPoint) => `Drawer expanded to ${snapPoint}`,
+  collapsed: (snapPoint) => `Drawer collapsed to ${snapPoint}`,
+  closed: "Drawer closed",
+};
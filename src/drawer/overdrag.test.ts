@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { applyOverdrag } from "./overdrag";
+
+describe("applyOverdrag", () => {
+  const range = { min: 0, max: 500 };
+
+  it("leaves translates inside the range alone", () => {
+    expect(applyOverdrag(250, { ...range, overdrag: 40 })).toBe(250);
+  });
+
+  it("stops dead at the ends when overdrag is off", () => {
+    expect(applyOverdrag(-100, { ...range, overdrag: false })).toBe(0);
+    expect(applyOverdrag(600, { ...range, overdrag: false })).toBe(500);
+  });
+
+  it("stretches no further than the limit", () => {
+    const translate = applyOverdrag(-1000, { ...range, overdrag: 40 });
+
+    expect(translate).toBeLessThan(0);
+    expect(translate).toBeGreaterThan(-40);
+  });
+
+  it("resists more the further it's dragged", () => {
+    const first = applyOverdrag(520, { ...range, overdrag: 40 }) - 500;
+    const second = applyOverdrag(540, { ...range, overdrag: 40 }) - first - 500;
+
+    expect(first).toBeLessThan(20);
+    expect(second).toBeLessThan(first);
+  });
+
+  it("maps the distance past the end with a custom curve", () => {
+    expect(
+      applyOverdrag(600, { ...range, overdrag: (distance) => distance / 2 })
+    ).toBe(550);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * How the drawer resists being dragged past the end of its range. A number
+ * is the furthest it can stretch in px, a function maps the distance dragged
+ * past the end to how far the drawer moves, and false stops it dead.
+ */
+export type Overdrag = false | number | ((distance: number) => number);
+
+// The same constant iOS uses for scroll views
+const RUBBER_BAND_COEFFICIENT = 0.55;
+
+export const rubberBand = (distance: number, limit: number) => {
+  return (1 - 1 / ((distance * RUBBER_BAND_COEFFICIENT) / limit + 1)) * limit;
+};
+
+export const applyOverdrag = (
+  translate: number,
+  { min, max, overdrag }: { min: number; max: number; overdrag: Overdrag }
+) => {
+  if (translate >= min && translate <= max) {
+    return translate;
+  }
+
+  const resistance =
+    typeof overdrag === "function"
+      ? overdrag
+      : (distance: number) => (overdrag ? rubberBand(distance, overdrag) : 0);
+
+  return translate < min
+    ? min - resistance(min - translate)
+    : max + resistance(translate - max);
+};
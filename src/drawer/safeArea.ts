@@ -0,0 +1,63 @@
+import { DAMPED_TRANSLATE_LIMIT } from "./constants";
+import { SIDE_PADDING_PROPERTIES, type DrawerSide } from "./side";
+
+/** The env(safe-area-inset-*) values in px, e.g. for notches and home bars */
+export type SafeAreaInsets = Record<DrawerSide, number>;
+
+export const NO_SAFE_AREA_INSETS: SafeAreaInsets = {
+  top: 0,
+  right: 0,
+  bottom: 0,
+  left: 0,
+};
+
+const OPPOSITE_SIDES: Record<DrawerSide, DrawerSide> = {
+  bottom: "top",
+  top: "bottom",
+  left: "right",
+  right: "left",
+};
+
+// env() can only be read through a style, so measure it off a hidden element
+export const readSafeAreaInsets = (): SafeAreaInsets => {
+  const probe = document.createElement("div");
+  probe.style.cssText =
+    "position: fixed; visibility: hidden; pointer-events: none; padding: env(safe-area-inset-top) env(safe-area-inset-right) env(safe-area-inset-bottom) env(safe-area-inset-left);";
+  document.body.appendChild(probe);
+
+  const style = getComputedStyle(probe);
+  const insets = {
+    top: parseFloat(style.paddingTop) || 0,
+    right: parseFloat(style.paddingRight) || 0,
+    bottom: parseFloat(style.paddingBottom) || 0,
+    left: parseFloat(style.paddingLeft) || 0,
+  };
+
+  probe.remove();
+  return insets;
+};
+
+// The inset at the edge the drawer opens towards, which its full height
+// stops short of
+export const getFarInset = (side: DrawerSide, insets: SafeAreaInsets) => {
+  return insets[OPPOSITE_SIDES[side]];
+};
+
+// Pads every edge of the drawer that meets the screen. The edge it's attached
+// to also hides the elastic padding past the end of the drawer.
+export const getSafeAreaPadding = (
+  side: DrawerSide,
+  insets: SafeAreaInsets
+) => {
+  const padding: Record<(typeof SIDE_PADDING_PROPERTIES)[DrawerSide], number> =
+    {
+      paddingTop: insets.top,
+      paddingRight: insets.right,
+      paddingBottom: insets.bottom,
+      paddingLeft: insets.left,
+    };
+
+  padding[SIDE_PADDING_PROPERTIES[OPPOSITE_SIDES[side]]] = 0;
+  padding[SIDE_PADDING_PROPERTIES[side]] += DAMPED_TRANSLATE_LIMIT;
+  return padding;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { consumeScrollDelta } from "./scroll";
+
+const createScrollElement = (scrollTop: number) =>
+  ({ scrollTop, scrollHeight: 1000, clientHeight: 500 } as HTMLElement);
+
+describe("consumeScrollDelta", () => {
+  it("scrolls content back to the top before moving the drawer closed", () => {
+    const scrollElement = createScrollElement(20);
+
+    expect(
+      consumeScrollDelta({
+        delta: 30,
+        scrollElement,
+        translate: 100,
+        topTranslate: 100,
+      })
+    ).toBe(10);
+    expect(scrollElement.scrollTop).toBe(0);
+  });
+
+  it("expands the drawer before scrolling the content", () => {
+    const scrollElement = createScrollElement(0);
+
+    expect(
+      consumeScrollDelta({
+        delta: -50,
+        scrollElement,
+        translate: 120,
+        topTranslate: 100,
+      })
+    ).toBe(-20);
+    expect(scrollElement.scrollTop).toBe(30);
+  });
+
+  it("leaves the movement to the drawer once the content can't scroll", () => {
+    const scrollElement = createScrollElement(500);
+
+    expect(
+      consumeScrollDelta({
+        delta: -50,
+        scrollElement,
+        translate: 120,
+        topTranslate: 100,
+      })
+    ).toBe(-50);
+    expect(scrollElement.scrollTop).toBe(500);
+  });
+});
@@ -0,0 +1,108 @@
+// Momentum decays with the same time constant as native iOS scrolling
+const MOMENTUM_TIME_CONSTANT = 325;
+const MOMENTUM_REST_VELOCITY = 0.02;
+
+/**
+ * Splits a drag movement between scrolling the drawer's content and moving
+ * the drawer itself, the way native sheets hand a gesture from one to the
+ * other. Positive deltas move towards closed. Scrolls the element and
+ * returns the part of the movement left over for the drawer.
+ */
+export const consumeScrollDelta = ({
+  delta,
+  scrollElement,
+  translate,
+  topTranslate,
+}: {
+  delta: number;
+  scrollElement: HTMLElement;
+  translate: number;
+  topTranslate: number;
+}) => {
+  let remaining = delta;
+
+  // Dragging towards closed scrolls the content back to the top first
+  if (remaining > 0 && scrollElement.scrollTop > 0) {
+    const scrolled = Math.min(remaining, scrollElement.scrollTop);
+    scrollElement.scrollTop -= scrolled;
+    remaining -= scrolled;
+  }
+
+  // Dragging open expands the drawer first, then scrolls what's left over
+  if (remaining < 0) {
+    const drawerPart = Math.min(
+      0,
+      Math.max(remaining, topTranslate - translate)
+    );
+    const maxScrollTop =
+      scrollElement.scrollHeight - scrollElement.clientHeight;
+    const scrolled = Math.min(
+      drawerPart - remaining,
+      maxScrollTop - scrollElement.scrollTop
+    );
+
+    if (scrolled > 0) {
+      scrollElement.scrollTop += scrolled;
+      remaining += scrolled;
+    }
+  }
+
+  return remaining;
+};
+
+/**
+ * Keeps content scrolling after a drag is released. Velocity is in px/ms of
+ * scrollTop. Returns a function that stops the momentum.
+ */
+export const animateScrollMomentum = (
+  scrollElement: HTMLElement,
+  velocity: number
+) => {
+  let currentVelocity = velocity;
+  let lastTime: number | null = null;
+  let frame: number | null = null;
+
+  const tick = (time: number) => {
+    const elapsed = lastTime === null ? 0 : time - lastTime;
+    lastTime = time;
+
+    const previousScrollTop = scrollElement.scrollTop;
+    scrollElement.scrollTop += currentVelocity * elapsed;
+    currentVelocity *= Math.exp(-elapsed / MOMENTUM_TIME_CONSTANT);
+
+    // Stop once it slows down or runs into either end
+    if (
+      Math.abs(currentVelocity) < MOMENTUM_REST_VELOCITY ||
+      (elapsed > 0 && scrollElement.scrollTop === previousScrollTop)
+    ) {
+      frame = null;
+      return;
+    }
+
+    frame = requestAnimationFrame(tick);
+  };
+
+  frame = requestAnimationFrame(tick);
+
+  return () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+  };
+};
+
+// Scrolls the least distance needed to bring `element` fully into view
+export const scrollIntoContentView = (
+  scrollElement: HTMLElement,
+  element: HTMLElement
+) => {
+  const scrollRect = scrollElement.getBoundingClientRect();
+  const elementRect = element.getBoundingClientRect();
+
+  if (elementRect.bottom > scrollRect.bottom) {
+    scrollElement.scrollTop += elementRect.bottom - scrollRect.bottom;
+  } else if (elementRect.top < scrollRect.top) {
+    scrollElement.scrollTop -= scrollRect.top - elementRect.top;
+  }
+};
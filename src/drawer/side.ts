@@ -0,0 +1,110 @@
+export type DrawerSide = "bottom" | "top" | "left" | "right";
+
+// Drawer positions are tracked as a single translate along the drawer's axis,
+// measured the same way for every side: 0 is fully showing and the viewport
+// size is fully hidden. These helpers map that value onto each edge.
+
+export const isVerticalSide = (side: DrawerSide) => {
+  return side === "bottom" || side === "top";
+};
+
+// Top and left drawers move in the opposite direction to the pointer
+export const getSideSign = (side: DrawerSide) => {
+  return side === "bottom" || side === "right" ? 1 : -1;
+};
+
+export const getSideTransform = (side: DrawerSide, translate: number) => {
+  const axis = isVerticalSide(side) ? "Y" : "X";
+  return `translate${axis}(${getSideSign(side) * translate}px)`;
+};
+
+// Hides the drawer without knowing the viewport size, e.g. on the server or
+// before it's been measured
+export const getSideClosedTransform = (side: DrawerSide) => {
+  const axis = isVerticalSide(side) ? "Y" : "X";
+  const unit = isVerticalSide(side) ? "vh" : "vw";
+  return `translate${axis}(${getSideSign(side) * 100}${unit})`;
+};
+
+export const getPointerPosition = (
+  side: DrawerSide,
+  event: { clientX: number; clientY: number }
+) => {
+  return (
+    getSideSign(side) * (isVerticalSide(side) ? event.clientY : event.clientX)
+  );
+};
+
+// The translate a drawer is rendered at, including partway through an
+// animation. Vertical drawers sit within the visible part of the viewport.
+export const getRenderedTranslate = (
+  side: DrawerSide,
+  rect: DOMRect,
+  viewport: { width: number; height: number; offsetTop: number }
+) => {
+  switch (side) {
+    case "bottom":
+      return rect.top - viewport.offsetTop;
+    case "top":
+      return viewport.offsetTop + viewport.height - rect.bottom;
+    case "right":
+      return rect.left;
+    case "left":
+      return viewport.width - rect.right;
+  }
+};
+
+// Keeps the drawer within the visible part of the viewport, above an
+// on-screen keyboard, rather than the edges of the layout viewport
+export const getSideViewportInsets = (
+  side: DrawerSide,
+  viewport: { offsetTop: number; offsetBottom: number }
+): React.CSSProperties => {
+  switch (side) {
+    case "bottom":
+      return { top: viewport.offsetTop };
+    case "top":
+      return { bottom: viewport.offsetBottom };
+    case "left":
+    case "right":
+      return {
+        top: viewport.offsetTop,
+        bottom: viewport.offsetBottom,
+        height: "auto",
+      };
+  }
+};
+
+export const SIDE_CLASS_NAMES: Record<DrawerSide, string> = {
+  bottom: "left-0 top-0 right-0 w-full rounded-t-xl",
+  top: "left-0 bottom-0 right-0 w-full rounded-b-xl",
+  left: "top-0 bottom-0 right-0 h-full rounded-r-xl",
+  right: "top-0 bottom-0 left-0 h-full rounded-l-xl",
+};
+
+// Sits past the edge the drawer is attached to
+export const SIDE_FILLER_CLASS_NAMES: Record<DrawerSide, string> = {
+  bottom: "top-full left-0 right-0",
+  top: "bottom-full left-0 right-0",
+  left: "right-full top-0 bottom-0",
+  right: "left-full top-0 bottom-0",
+};
+
+// Drawers recede towards the edge furthest from the one they're attached to
+export const SIDE_TRANSFORM_ORIGINS: Record<DrawerSide, string> = {
+  bottom: "top",
+  top: "bottom",
+  left: "right",
+  right: "left",
+};
+
+// The edge that hides the elastic padding past the end of the drawer
+export const SIDE_PADDING_PROPERTIES: Record<
+  DrawerSide,
+  "paddingBottom" | "paddingTop" | "paddingLeft" | "paddingRight"
+> = {
+  bottom: "paddingBottom",
+  top: "paddingTop",
+  left: "paddingLeft",
+  right: "paddingRight",
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  getReleaseVelocity,
+  getSnapPointTranslate,
+  getSnapTargetIndex,
+} from "./snapPoints";
+
+describe("getSnapPointTranslate", () => {
+  const viewportSize = 800;
+
+  it("fits content snap points to the content", () => {
+    expect(
+      getSnapPointTranslate("content", { viewportSize, contentSize: 300 })
+    ).toBe(510);
+  });
+
+  it("keeps content taller than the viewport clear of the top", () => {
+    expect(
+      getSnapPointTranslate("content", { viewportSize, contentSize: 900 })
+    ).toBe(10);
+  });
+
+  it("treats numbers up to 1 as fractions of the viewport", () => {
+    expect(getSnapPointTranslate(0.5, { viewportSize, contentSize: 0 })).toBe(
+      400
+    );
+    expect(getSnapPointTranslate(1, { viewportSize, contentSize: 0 })).toBe(10);
+  });
+
+  it("shows larger numbers as pixels clear of the near inset", () => {
+    expect(
+      getSnapPointTranslate(200, {
+        viewportSize,
+        contentSize: 0,
+        nearInset: 34,
+      })
+    ).toBe(566);
+  });
+
+  it("keeps full height snap points clear of the far inset", () => {
+    expect(
+      getSnapPointTranslate(1, { viewportSize, contentSize: 0, farInset: 47 })
+    ).toBe(37);
+  });
+});
+
+describe("getSnapTargetIndex", () => {
+  // A peek snap point first, then full height
+  const release = (
+    currentPosition: number,
+    velocity: number,
+    { positions = [600, 100], hasTravelled = true } = {}
+  ) =>
+    getSnapTargetIndex({
+      positions,
+      currentPosition,
+      closedPosition: 800,
+      velocity,
+      hasTravelled,
+      dismissThreshold: 0.5,
+      velocityThreshold: 0.4,
+    });
+
+  it("settles slow releases at the closest snap point", () => {
+    expect(release(150, 0)).toBe(1);
+    expect(release(550, 0)).toBe(0);
+    expect(release(650, 0)).toBe(0);
+  });
+
+  it("dismisses slow releases past the dismiss threshold", () => {
+    expect(release(750, 0)).toBeNull();
+  });
+
+  it("projects the release velocity before picking a snap point", () => {
+    expect(release(300, 0.3)).toBe(1);
+    expect(release(650, 0.5, { hasTravelled: false })).toBeNull();
+  });
+
+  it("flicks on to the next snap point in the direction of travel", () => {
+    expect(release(300, 1)).toBe(0);
+    expect(release(500, -1)).toBe(1);
+  });
+
+  it("dismisses flicks towards closed past the lowest snap point", () => {
+    expect(release(650, 1)).toBeNull();
+  });
+
+  it("keeps flicks open past the most expanded snap point", () => {
+    expect(release(50, -1)).toBe(1);
+  });
+
+  it("goes by position rather than the order snap points are given in", () => {
+    expect(release(300, 1, { positions: [100, 600] })).toBe(1);
+    expect(release(550, 0, { positions: [100, 600] })).toBe(1);
+  });
+});
+
+describe("getReleaseVelocity", () => {
+  it("measures px/ms across the recent samples", () => {
+    expect(
+      getReleaseVelocity(
+        [
+          { position: 0, time: 0 },
+          { position: 100, time: 50 },
+        ],
+        60
+      )
+    ).toBe(2);
+  });
+
+  it("ignores samples from before the sample window", () => {
+    expect(
+      getReleaseVelocity(
+        [
+          { position: 0, time: 0 },
+          { position: 50, time: 100 },
+          { position: 100, time: 150 },
+        ],
+        200
+      )
+    ).toBe(1);
+  });
+
+  it("is zero without enough samples to measure", () => {
+    expect(getReleaseVelocity([{ position: 0, time: 0 }], 10)).toBe(0);
+    expect(
+      getReleaseVelocity(
+        [
+          { position: 0, time: 0 },
+          { position: 100, time: 0 },
+        ],
+        10
+      )
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  DAMPED_TRANSLATE_LIMIT,
+  FULL_HEIGHT_OFFSET,
+  VELOCITY_PROJECTION_DURATION,
+  VELOCITY_SAMPLE_DURATION,
+} from "./constants";
+
+/**
+ * A resting position for the drawer. Numbers up to 1 are fractions of the
+ * viewport, larger numbers are pixels of drawer showing, and "content" fits
+ * the drawer to its content. Sizes are heights for top and bottom drawers and
+ * widths for left and right ones.
+ *
+ * "content" only works as the last snap point. Anywhere else the drawer is
+ * stretched to fill the viewport for the larger ones, so its content can't be
+ * measured and it sits at full size instead.
+ */
+export type SnapPoint = number | "content";
+
+export const DEFAULT_SNAP_POINTS: SnapPoint[] = ["content"];
+
+/**
+ * `nearInset` and `farInset` are the safe area insets at the edge the drawer
+ * is attached to and the edge it opens towards. Content sizes already include
+ * the near inset through the drawer's padding.
+ */
+export const getSnapPointTranslate = (
+  snapPoint: SnapPoint,
+  {
+    viewportSize,
+    contentSize,
+    nearInset = 0,
+    farInset = 0,
+  }: {
+    viewportSize: number;
+    contentSize: number;
+    nearInset?: number;
+    farInset?: number;
+  }
+) => {
+  const minTranslateY =
+    Math.max(FULL_HEIGHT_OFFSET, farInset) - DAMPED_TRANSLATE_LIMIT;
+
+  if (snapPoint === "content") {
+    return Math.max(
+      minTranslateY,
+      viewportSize - contentSize + DAMPED_TRANSLATE_LIMIT
+    );
+  }
+
+  if (snapPoint <= 1) {
+    return Math.max(minTranslateY, viewportSize * (1 - snapPoint));
+  }
+
+  // Peek heights show that much of the drawer clear of the near inset
+  return Math.max(minTranslateY, viewportSize - snapPoint - nearInset);
+};
+
+// Whether the drawer should size itself to its content or stretch to the
+// edge of the viewport at every snap point. Only a trailing "content" counts,
+// since any snap point after it needs the drawer stretched.
+export const isContentSized = (snapPoints: SnapPoint[]) => {
+  return snapPoints[snapPoints.length - 1] === "content";
+};
+
+/**
+ * Picks the snap point a released drag settles on, or null when the drawer
+ * should close. Positions are translates, so larger values are more closed
+ * and a positive velocity is moving towards closed.
+ */
+export const getSnapTargetIndex = ({
+  positions,
+  currentPosition,
+  closedPosition,
+  velocity,
+  hasTravelled,
+  dismissThreshold,
+  velocityThreshold,
+}: {
+  positions: number[];
+  currentPosition: number;
+  closedPosition: number;
+  velocity: number;
+  hasTravelled: boolean;
+  dismissThreshold: number;
+  velocityThreshold: number;
+}): number | null => {
+  // Snap point indexes, most expanded first
+  const sortedIndexes = positions
+    .map((_, index) => index)
+    .sort((a, b) => positions[a] - positions[b]);
+
+  // Flicks move on to the next snap point in the direction of travel
+  if (hasTravelled && Math.abs(velocity) >= velocityThreshold) {
+    if (velocity > 0) {
+      return (
+        sortedIndexes.find((index) => positions[index] > currentPosition) ??
+        null
+      );
+    }
+
+    return (
+      [...sortedIndexes]
+        .reverse()
+        .find((index) => positions[index] < currentPosition) ?? sortedIndexes[0]
+    );
+  }
+
+  // Slower releases settle wherever the drawer was heading
+  const projectedPosition =
+    currentPosition + velocity * VELOCITY_PROJECTION_DURATION;
+  const lowestPosition = positions[sortedIndexes[sortedIndexes.length - 1]];
+  const dismissPosition =
+    lowestPosition + (closedPosition - lowestPosition) * dismissThreshold;
+
+  if (projectedPosition >= dismissPosition) {
+    return null;
+  }
+
+  return sortedIndexes.reduce((closest, index) =>
+    Math.abs(projectedPosition - positions[index]) <
+    Math.abs(projectedPosition - positions[closest])
+      ? index
+      : closest
+  );
+};
+
+/**
+ * Release velocity in px/ms from the pointer samples taken during the last
+ * `VELOCITY_SAMPLE_DURATION`ms of a drag.
+ */
+export const getReleaseVelocity = (
+  samples: { position: number; time: number }[],
+  releaseTime: number
+) => {
+  const recentSamples = samples.filter(
+    ({ time }) => releaseTime - time <= VELOCITY_SAMPLE_DURATION
+  );
+
+  if (recentSamples.length < 2) {
+    return 0;
+  }
+
+  const first = recentSamples[0];
+  const last = recentSamples[recentSamples.length - 1];
+
+  if (last.time === first.time) {
+    return 0;
+  }
+
+  return (last.position - first.position) / (last.time - first.time);
+};
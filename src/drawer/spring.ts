@@ -0,0 +1,92 @@
+export type SpringConfig = {
+  stiffness: number;
+  damping: number;
+  mass: number;
+};
+
+export const DEFAULT_SPRING_CONFIG: SpringConfig = {
+  stiffness: 300,
+  damping: 30,
+  mass: 1,
+};
+
+// Stiff and underdamped so a refused close wobbles briefly and settles
+export const SHAKE_SPRING_CONFIG: SpringConfig = {
+  stiffness: 1000,
+  damping: 15,
+  mass: 1,
+};
+
+// Integration step in seconds. Frames are split into steps this size so the
+// spring behaves the same at any frame rate.
+const STEP = 1 / 240;
+const REST_DISTANCE = 0.5;
+const REST_VELOCITY = 5;
+
+/**
+ * Runs a damped spring from `from` to `to` on animation frames. Velocity is
+ * in px/ms to match pointer velocities. Returns a function that stops the
+ * spring and reports its current velocity so another spring can pick up
+ * where it left off.
+ */
+export const animateSpring = ({
+  from,
+  to,
+  velocity = 0,
+  config,
+  onUpdate,
+  onComplete,
+}: {
+  from: number;
+  to: number;
+  velocity?: number;
+  config: SpringConfig;
+  onUpdate: (value: number) => void;
+  onComplete?: () => void;
+}) => {
+  const { stiffness, damping, mass } = config;
+  let position = from;
+  // Solved in px/s
+  let currentVelocity = velocity * 1000;
+  let lastTime: number | null = null;
+  let frame: number | null = null;
+
+  const tick = (time: number) => {
+    const elapsed = lastTime === null ? 0 : (time - lastTime) / 1000;
+    lastTime = time;
+
+    // Cap long frames (e.g. a backgrounded tab) so the spring doesn't explode
+    let remaining = Math.min(elapsed, 0.064);
+    while (remaining > 0) {
+      const step = Math.min(STEP, remaining);
+      const force = -stiffness * (position - to) - damping * currentVelocity;
+      currentVelocity += (force / mass) * step;
+      position += currentVelocity * step;
+      remaining -= step;
+    }
+
+    if (
+      Math.abs(position - to) < REST_DISTANCE &&
+      Math.abs(currentVelocity) < REST_VELOCITY
+    ) {
+      frame = null;
+      onUpdate(to);
+      onComplete?.();
+      return;
+    }
+
+    onUpdate(position);
+    frame = requestAnimationFrame(tick);
+  };
+
+  frame = requestAnimationFrame(tick);
+
+  return () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+
+    return currentVelocity / 1000;
+  };
+};
@@ -0,0 +1,28 @@
+export {
+  AnimatedRender,
+  type AnimatedRenderProps,
+} from "./drawer/AnimatedRender";
+export { type DrawerBackground } from "./drawer/background";
+export { Drawer, type DrawerProps, type DrawerRef } from "./drawer/Drawer";
+export { DrawerHandle, type DrawerHandleProps } from "./drawer/DrawerHandle";
+export { DrawerHeader, type DrawerHeaderProps } from "./drawer/DrawerHeader";
+export {
+  useBoundingClientRect,
+  useElementSize,
+  useIsClient,
+  useKeyPress,
+  usePreventBodyScroll,
+  useReducedMotion,
+  useSafeAreaInsets,
+  useViewportHeight,
+  useViewportSize,
+  type ReducedMotion,
+  type ViewportSize,
+} from "./drawer/hooks";
+export { type CloseReason, type Dismissible } from "./drawer/dismiss";
+export { type DrawerMessages } from "./drawer/messages";
+export { type Overdrag } from "./drawer/overdrag";
+export { type SafeAreaInsets } from "./drawer/safeArea";
+export { type DrawerSide } from "./drawer/side";
+export { type SnapPoint } from "./drawer/snapPoints";
+export { type SpringConfig } from "./drawer/spring";
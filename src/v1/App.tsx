@@ -1,65 +1,10 @@
-import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
-
-const useViewportHeight = () => {
-  const [viewportHeight, setViewportHeight] = useState(0);
-
-  useEffect(() => {
-    const handleResize = () => {
-      setViewportHeight(window.innerHeight);
-    };
-
-    handleResize();
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, []);
-
-  return viewportHeight;
-};
-
-const useKeyPress = (key: string, callback: () => void) => {
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === key) {
-        console.log("useKeyPress", e.key, key, callback);
-        callback();
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyPress);
-    return () => document.removeEventListener("keydown", handleKeyPress);
-  }, [key, callback]);
-};
-
-const useBoundingClientRect = (
-  ref: React.RefObject<HTMLElement | null>,
-  deps: unknown[]
-) => {
-  const [boundingClientRect, setBoundingClientRect] = useState<
-    Partial<DOMRect>
-  >({
-    height: 0,
-    width: 0,
-  });
-
-  useLayoutEffect(() => {
-    if (ref.current) {
-      setBoundingClientRect(ref.current.getBoundingClientRect());
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ref, ...deps]);
-
-  return boundingClientRect;
-};
-
-const usePreventBodyScroll = (isOpen: boolean) => {
-  useEffect(() => {
-    if (isOpen) {
-      document.body.style.overflow = "hidden";
-    } else {
-      document.body.style.overflow = "";
-    }
-  }, [isOpen]);
-};
+import { useMemo, useRef, useState } from "react";
+import {
+  useBoundingClientRect,
+  useKeyPress,
+  usePreventBodyScroll,
+  useViewportHeight,
+} from "../index.ts";
 
 const Drawer = ({
   isOpen,
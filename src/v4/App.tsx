@@ -1,106 +1,11 @@
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
-  useCallback,
-  useEffect,
-  useLayoutEffect,
-  useRef,
-  useState,
-} from "react";
-
-const useViewportHeight = () => {
-  const [viewportHeight, setViewportHeight] = useState(0);
-
-  useEffect(() => {
-    const handleResize = () => {
-      setViewportHeight(window.innerHeight);
-    };
-
-    handleResize();
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, []);
-
-  return viewportHeight;
-};
-
-const useKeyPress = (key: string, callback: () => void) => {
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === key) {
-        callback();
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyPress);
-    return () => document.removeEventListener("keydown", handleKeyPress);
-  }, [key, callback]);
-};
-
-const useBoundingClientRect = (
-  ref: React.RefObject<HTMLElement | null>,
-  deps: unknown[]
-) => {
-  const [boundingClientRect, setBoundingClientRect] = useState<
-    Partial<DOMRect>
-  >({
-    height: 0,
-    width: 0,
-  });
-
-  useLayoutEffect(() => {
-    if (ref.current) {
-      setBoundingClientRect(ref.current.getBoundingClientRect());
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ref, ...deps]);
-
-  return boundingClientRect;
-};
-
-const usePreventBodyScroll = (isOpen: boolean) => {
-  useEffect(() => {
-    if (isOpen) {
-      document.body.style.overflow = "hidden";
-    } else {
-      document.body.style.overflow = "";
-    }
-  }, [isOpen]);
-};
-
-const AnimatedRender = ({
-  showing,
-  duration,
-  children,
-}: {
-  showing: boolean;
-  duration: number;
-  children: React.ReactNode;
-}) => {
-  const [isMounted, setIsMounted] = useState(showing);
-  const timeoutRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    setIsMounted((prev) => {
-      if (showing) {
-        return true;
-      } else if (prev) {
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current);
-        }
-        timeoutRef.current = setTimeout(() => setIsMounted(false), duration);
-        return prev;
-      }
-      return prev;
-    });
-
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, [showing, duration]);
-
-  return isMounted || showing ? children : null;
-};
+  AnimatedRender,
+  useBoundingClientRect,
+  useKeyPress,
+  usePreventBodyScroll,
+  useViewportHeight,
+} from "../index.ts";
 
 const DURATION = 300;
 const FULL_HEIGHT_OFFSET = 20;
@@ -1,157 +1,14 @@
-import {
-  useCallback,
-  useEffect,
-  useLayoutEffect,
-  useRef,
-  useState,
-} from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
-
-const useViewportHeight = () => {
-  const [viewportHeight, setViewportHeight] = useState(0);
-
-  useEffect(() => {
-    const handleResize = () => {
-      setViewportHeight(window.innerHeight);
-    };
-
-    handleResize();
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, []);
-
-  return viewportHeight;
-};
-
-const useKeyPress = (key: string, callback: () => void) => {
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (e.key === key) {
-        callback();
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyPress);
-    return () => document.removeEventListener("keydown", handleKeyPress);
-  }, [key, callback]);
-};
-
-const useBoundingClientRect = (
-  ref: React.RefObject<HTMLElement | null>,
-  deps: unknown[]
-) => {
-  const [boundingClientRect, setBoundingClientRect] = useState<
-    Partial<DOMRect>
-  >({
-    height: 0,
-    width: 0,
-  });
-
-  useLayoutEffect(() => {
-    if (ref.current) {
-      setBoundingClientRect(ref.current.getBoundingClientRect());
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ref, ...deps]);
-
-  return boundingClientRect;
-};
-
-const usePreventBodyScroll = (isOpen: boolean) => {
-  useEffect(() => {
-    if (isOpen) {
-      document.body.style.overflow = "hidden";
-    } else {
-      document.body.style.overflow = "";
-    }
-  }, [isOpen]);
-};
-
-const AnimatedRender = ({
-  showing,
-  duration,
-  children,
-}: {
-  showing: boolean;
-  duration: number;
-  children: React.ReactNode;
-}) => {
-  const [isMounted, setIsMounted] = useState(showing);
-  const timeoutRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    setIsMounted((prev) => {
-      if (showing) {
-        return true;
-      } else if (prev) {
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current);
-        }
-        timeoutRef.current = setTimeout(() => setIsMounted(false), duration);
-        return prev;
-      }
-      return prev;
-    });
-
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, [showing, duration]);
-
-  return isMounted || showing ? children : null;
-};
-
-const DrawerHandle = ({ direction }: { direction?: "up" | "down" | null }) => {
-  const width = 48;
-  const height = 16;
-  const strokeWidth = 3;
-
-  return (
-    <div className="w-full flex items-center justify-center p-4">
-      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
-        <path
-          d={`M${strokeWidth / 2},${height / 2} L${width / 2},${
-            direction === "up"
-              ? strokeWidth
-              : direction === "down"
-              ? height - strokeWidth
-              : height / 2
-          } L${width - strokeWidth / 2},${height / 2}`}
-          stroke="rgb(229 229 229)"
-          strokeWidth={strokeWidth}
-          strokeLinecap="round"
-          fill="none"
-        />
-      </svg>
-    </div>
-  );
-};
-
-const DrawerHeader = ({ headingText }: { headingText: string }) => {
-  return (
-    <div className="flex justify-between items-center p-4">
-      <h3 className="text-neutral-950 text-lg font-semibold">{headingText}</h3>
-      <button
-        slot="close"
-        className="text-neutral-500 hover:text-neutral-950 w-10 h-10 flex items-center justify-center hover:bg-neutral-950/5 rounded-full -m-2"
-      >
-        <svg
-          xmlns="http://www.w3.org/2000/svg"
-          width="20"
-          height="20"
-          viewBox="0 0 24 24"
-        >
-          <path
-            fill="currentColor"
-            d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"
-          />
-        </svg>
-      </button>
-    </div>
-  );
-};
+import {
+  AnimatedRender,
+  DrawerHandle,
+  DrawerHeader,
+  useBoundingClientRect,
+  useKeyPress,
+  usePreventBodyScroll,
+  useViewportHeight,
+} from "../index.ts";
 
 const DURATION = 400;
 const FULL_HEIGHT_OFFSET = 20;
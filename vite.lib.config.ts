@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react-swc";
+
+// Library build for the drawer components exported from src/index.ts.
+// Type declarations are emitted separately by tsconfig.lib.json.
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: "dist/lib",
+    copyPublicDir: false,
+    lib: {
+      entry: "src/index.ts",
+      formats: ["es", "cjs"],
+      fileName: "draggable-drawer",
+    },
+    rollupOptions: {
+      external: ["react", "react-dom", "react/jsx-runtime"],
+    },
+  },
+});